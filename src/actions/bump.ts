@@ -46,8 +46,9 @@ import {
  */
 export async function run(): Promise<void> {
   // Try to download and load configuration
-  await getConfig(core.getInput("config"));
-  const config = new Configuration(".commisery.yml");
+  const allowPlugins = core.getBooleanInput("allow-plugins");
+  await getConfig(core.getInput("config"), allowPlugins);
+  const config = new Configuration(".commisery.yml", allowPlugins);
 
   const { branchName, isBranchAllowedToPublish } =
     checkBranchPublishingPermission(config);
@@ -66,8 +66,9 @@ export async function run(): Promise<void> {
       );
       return;
     }
-    await getConfig(core.getInput("config"));
-    const config = new Configuration(".commisery.yml");
+    const allowPlugins = core.getBooleanInput("allow-plugins");
+    await getConfig(core.getInput("config"), allowPlugins);
+    const config = new Configuration(".commisery.yml", allowPlugins);
     let compliant = true;
     let commitMessages: ConventionalCommitMessage[] = [];
 
@@ -33,7 +33,7 @@ import {
   matchTagsToCommits,
   updateDraftRelease,
 } from "./github";
-import { ConventionalCommitMessage } from "./commit";
+import { ConventionalCommitMessage, getRevertedCommit } from "./commit";
 import { SemVer, SemVerType } from "./semver";
 import { BumpError } from "./errors";
 import {
@@ -51,6 +51,7 @@ import {
 import { outputCommitListErrors, processCommits } from "./validate";
 
 const RC_PREFIX = "rc";
+const GIT_REVERT_SUBJECT_REGEX = /^Revert "(?<subject>.*)"(?=\r?\n|$)/;
 
 /**
  * Return the first eight characters of a string.
@@ -104,8 +105,70 @@ function getSemVerIfMatches(
   return null;
 }
 
+/**
+ * Removes the commits that are reverted within the provided list of commits,
+ * along with the commits reverting them, as they cancel each other out.
+ * Reverts of commits that are not part of the list (i.e. commits that have
+ * already been released) are retained.
+ *
+ * The list of commits is expected to be ordered newest first.
+ */
+function cancelRevertedCommits(commits: ICommit[]): ICommit[] {
+  const findCommit = (sha: string | undefined): ICommit | undefined =>
+    sha === undefined
+      ? undefined
+      : commits.find(
+          c => c.sha !== "" && (c.sha.startsWith(sha) || sha.startsWith(c.sha))
+        );
+
+  const retained = new Set<ICommit>();
+  for (const commit of [...commits].reverse()) {
+    const reverted = findCommit(getRevertedCommit(commit.message));
+    if (reverted === undefined) {
+      retained.add(commit);
+    } else if (retained.has(reverted)) {
+      core.debug(
+        `Commit ${shortSha(commit.sha)} reverts ${shortSha(reverted.sha)}; ` +
+          "ignoring both"
+      );
+      retained.delete(reverted);
+    } else {
+      // Reverting a revert reinstates the commit it cancelled
+      const reinstated = findCommit(getRevertedCommit(reverted.message));
+      if (reinstated !== undefined) {
+        core.debug(
+          `Commit ${shortSha(commit.sha)} reinstates ${shortSha(reinstated.sha)}`
+        );
+        retained.add(reinstated);
+      }
+    }
+  }
+
+  return commits.filter(c => retained.has(c));
+}
+
+/**
+ * Rewrites a `git revert` generated message (`Revert "<subject>"`) of an
+ * already released commit into a Conventional Commit of type `revert`, so
+ * that it is considered for the bump and listed in the changelog.
+ */
+function asConventionalRevert(commit: ICommit): ICommit {
+  const match = GIT_REVERT_SUBJECT_REGEX.exec(commit.message);
+  if (!match?.groups || getRevertedCommit(commit.message) === undefined) {
+    return commit;
+  }
+
+  return {
+    ...commit,
+    message: `revert: ${match.groups.subject}${commit.message.slice(
+      match[0].length
+    )}`,
+  };
+}
+
 /** Validates a list of commits in a bump context, which differs slightly to
  * pull request validation runs, as some rules need to be disabled.
+ * Commits that are reverted within the same list are not considered.
  */
 function processCommitsForBump(
   commits: ICommit[],
@@ -117,9 +180,15 @@ function processCommitsForBump(
   // a reference to the PR number in merge commits.
   const configCopy = config.copy();
   configCopy.setRuleActive("C014", false); // SubjectExceedsLineLengthLimit
+  configCopy.setRuleActive("C016", false); // DescriptionInImperativeMood
   configCopy.setRuleActive("C019", false); // SubjectContainsIssueReference
+  configCopy.setRuleActive("C034", false); // MissingSignOffByAuthor
+  configCopy.setRuleActive("C035", false); // SubjectMarksWorkInProgress
 
-  return processCommits(commits, configCopy);
+  return processCommits(
+    cancelRevertedCommits(commits).map(asConventionalRevert),
+    configCopy
+  );
 }
 
 /**
@@ -131,7 +200,8 @@ export function getVersionBumpType(
 ): SemVerType {
   let highestBump: SemVerType = SemVerType.NONE;
 
-  for (const message of messages) {
+  // Squash merge commits are considered along with their nested commits
+  for (const message of messages.flatMap(m => [m, ...m.nestedCommits])) {
     if (highestBump !== SemVerType.MAJOR) {
       core.debug(
         `Commit type '${message.type}'${
@@ -500,6 +570,54 @@ export async function publishBump(
   };
 }
 
+/**
+ * Returns the version requested by the most recent `Release-As` trailer in the
+ * processed commits, if any. The requested version inherits the prefix of the
+ * found version, unless it specifies one itself.
+ * Throws a `BumpError` if the requested version is invalid or is not greater
+ * than the found version.
+ */
+function getReleaseAs(
+  bumpInfo: IVersionBumpTypeAndMessages
+): { version: SemVer; sha: string } | undefined {
+  const result = bumpInfo.processedCommits.find(c => c.message?.releaseAs);
+  const releaseAs = result?.message?.releaseAs;
+  if (!result || !releaseAs || !bumpInfo.foundVersion) {
+    return;
+  }
+
+  const sha = shortSha(result.input.sha);
+  const version = SemVer.fromString(releaseAs);
+  if (!version) {
+    throw new BumpError(
+      `'Release-As: ${releaseAs}' in commit (${sha}) is not a valid version`
+    );
+  }
+  version.prefix ||= bumpInfo.foundVersion.prefix;
+
+  if (!bumpInfo.foundVersion.lessThan(version)) {
+    throw new BumpError(
+      `'Release-As: ${releaseAs}' in commit (${sha}) is not greater than ` +
+        `the current version ${bumpInfo.foundVersion.toString()}`
+    );
+  }
+
+  core.info(
+    `ℹ️ Commit (${sha}) requests version ${version.toString()} using 'Release-As'`
+  );
+  return { version, sha: result.input.sha };
+}
+
+/**
+ * Returns the version component incremented from `from` to `to`
+ */
+function getIncrement(from: SemVer, to: SemVer): SemVerType {
+  if (from.major !== to.major) {
+    return SemVerType.MAJOR;
+  }
+  return from.minor !== to.minor ? SemVerType.MINOR : SemVerType.PATCH;
+}
+
 export async function bumpSemVer(
   config: Configuration,
   bumpInfo: IVersionBumpTypeAndMessages,
@@ -522,14 +640,20 @@ export async function bumpSemVer(
     core.info(`- ${bumpString} bump for commit (${sha}): ${msg.subject}`);
   }
 
+  const releaseAs = getReleaseAs(bumpInfo);
+  const requiredBump =
+    releaseAs && bumpInfo.foundVersion
+      ? getIncrement(bumpInfo.foundVersion, releaseAs.version)
+      : bumpInfo.requiredBump;
+
   // Reject MAJOR and MINOR version bumps if we're on a release branch
   // (Purposefully do this check _after_ listing the processed commits.)
   if (
     new RegExp(config.releaseBranches).test(branchName) &&
-    [SemVerType.MAJOR, SemVerType.MINOR].includes(bumpInfo.requiredBump)
+    [SemVerType.MAJOR, SemVerType.MINOR].includes(requiredBump)
   ) {
     core.setFailed(
-      `A ${SemVerType[bumpInfo.requiredBump]} bump is requested, but ` +
+      `A ${SemVerType[requiredBump]} bump is requested, but ` +
         `we can only create PATCH bumps on a release branch.`
     );
     return;
@@ -537,7 +661,13 @@ export async function bumpSemVer(
 
   let bumpMetadata: IBumpInfo | undefined;
 
-  if (bumpInfo.foundVersion) {
+  if (releaseAs && bumpInfo.foundVersion) {
+    bumpMetadata = {
+      from: bumpInfo.foundVersion,
+      to: releaseAs.version,
+      type: SemVerType[requiredBump].toLowerCase(),
+    };
+  } else if (bumpInfo.foundVersion) {
     const bumpResult = bumpInfo.foundVersion.bump(
       bumpInfo.requiredBump,
       config.initialDevelopment
@@ -556,7 +686,12 @@ export async function bumpSemVer(
   let bumped = false;
 
   let changelog = "";
-  if (createChangelog) changelog = await generateChangelog(bumpInfo);
+  if (createChangelog) {
+    changelog = await generateChangelog(
+      bumpInfo,
+      bumpMetadata?.to.toString() ?? ""
+    );
+  }
 
   if (bumpMetadata) {
     const buildMetadata = core.getInput("build-metadata");
@@ -580,6 +715,10 @@ export async function bumpSemVer(
         from: bumpMetadata.from.toString(),
         to: bumpMetadata.to.toString(),
         type: bumpMetadata.type as ReleaseType,
+        releaseAs: releaseAs && {
+          version: releaseAs.version.toString(),
+          sha: releaseAs.sha,
+        },
       },
       tag,
       release,
@@ -649,7 +788,8 @@ function getNextSdkVer(
   hasBreakingChange: boolean,
   devPrereleaseText: string,
   headSha: string,
-  isInitialDevelopment: boolean
+  isInitialDevelopment: boolean,
+  releaseAs?: SemVer
 ): IBumpInfo | undefined {
   const currentIsRc = currentVersion.prerelease.startsWith(RC_PREFIX);
   const currentIsRel = currentVersion.prerelease === "";
@@ -674,11 +814,36 @@ function getNextSdkVer(
   core.info(` - bump type: ${sdkVerBumpType}`);
   core.info(` - branch type: ${isReleaseBranch ? "" : "not "}release`);
   core.info(` - breaking changes: ${hasBreakingChange ? "yes" : "no"}`);
+  if (releaseAs) {
+    core.info(` - requested version: ${releaseAs.toString()}`);
+  }
 
   let nextVersion: SemVer | null = null;
   let nextBumpType: SdkVerBumpType | null = null;
 
-  if (isReleaseBranch) {
+  // A requested version only applies until the current version has reached it,
+  // i.e. subsequent dev or RC bumps continue from the requested version.
+  const applyReleaseAs =
+    releaseAs !== undefined &&
+    (releaseAs.major !== currentVersion.major ||
+      releaseAs.minor !== currentVersion.minor ||
+      releaseAs.patch !== currentVersion.patch);
+
+  if (isReleaseBranch && applyReleaseAs) {
+    fatal(
+      "Requesting a version using 'Release-As' is not allowed on release branches."
+    );
+  } else if (applyReleaseAs && releaseAs) {
+    nextVersion = SemVer.copy(releaseAs);
+    nextVersion.build = "";
+    nextVersion.prerelease =
+      sdkVerBumpType === "rel"
+        ? ""
+        : sdkVerBumpType === "rc"
+          ? `${RC_PREFIX}01`
+          : `${devPrereleaseText}001`;
+    nextBumpType = sdkVerBumpType;
+  } else if (isReleaseBranch) {
     // If current branch HEAD is a release candidate:
     //   !createRel && !createRc = bump rc-val
     //   !createRel &&  createRc = bump rc-val
@@ -905,6 +1070,7 @@ export async function bumpSdkVer(
   }
   // TODO: This is wasteful, as this info has already been available before
   const headMatchesTag = await currentHeadMatchesTag(cv.toString());
+  const releaseAs = getReleaseAs(bumpInfo);
   const bump = getNextSdkVer(
     cv,
     sdkVerBumpType,
@@ -913,7 +1079,8 @@ export async function bumpSdkVer(
     hasBreakingChange,
     config.prereleasePrefix ?? "dev",
     headSha,
-    config.initialDevelopment
+    config.initialDevelopment,
+    releaseAs?.version
   );
 
   let bumped = false;
@@ -942,19 +1109,19 @@ export async function bumpSdkVer(
     );
 
     if (createChangelog) {
-      if (previousRelease && cv.prerelease) {
-        const toVersion =
-          // Since "dev" releases on non-release-branches result in a draft
-          // release, we'll need to use the commit sha.
-          bump.type === "dev" ? shortSha(headSha) : bump.to.toString();
+      const toVersion =
+        // Since "dev" releases on non-release-branches result in a draft
+        // release, we'll need to use the commit sha.
+        bump.type === "dev" ? shortSha(headSha) : bump.to.toString();
 
+      if (previousRelease && cv.prerelease) {
         changelog = await generateChangelogForCommits(
           previousRelease.name,
           toVersion,
           await collectChangelogCommits(previousRelease.name, config)
         );
       } else {
-        changelog = await generateChangelog(bumpInfo);
+        changelog = await generateChangelog(bumpInfo, toVersion);
       }
     }
 
@@ -976,6 +1143,10 @@ export async function bumpSdkVer(
         from: bumpInfo.foundVersion.toString(),
         to: bump.to.toString(),
         type: bump.type as ReleaseType,
+        releaseAs: releaseAs && {
+          version: releaseAs.version.toString(),
+          sha: releaseAs.sha,
+        },
       },
       tag,
       release,
@@ -113,11 +113,11 @@ async function getPullRequestSuffix(
  * references in the git trailer
  */
 function getIssueReferenceSuffix(commit: ConventionalCommitMessage): string {
-  const ISSUE_REGEX = new RegExp(/([A-Z]+-[0-9]+|#[0-9]+)/g);
-
   const issue_references: string[] = [];
   for (const footer of commit.footers) {
-    const matches = footer.value.matchAll(ISSUE_REGEX);
+    const matches = footer.value.matchAll(
+      commit.config.getIssueReferenceRegex("g")
+    );
     for (const match of matches) {
       issue_references.push(match[0]);
     }
@@ -143,6 +143,15 @@ async function generateChangelogEntry(
     .charAt(0)
     .toUpperCase()}${commit.description.slice(1)}`;
 
+  // Reverts of a specific (already released) commit are listed as such
+  if (commit.type === "revert" && commit.reverts) {
+    changelogEntry = `Revert "${commit.description}"`;
+  }
+
+  if (commit.emoji && commit.config.emojiInChangelog) {
+    changelogEntry = `${commit.emoji} ${changelogEntry}`;
+  }
+
   changelogEntry += await getPullRequestSuffix(commit);
   changelogEntry += getIssueReferenceSuffix(commit);
 
@@ -195,22 +204,27 @@ export async function generateChangelogForCommits(
   }
   const config = await getChangelogConfiguration();
 
+  // Squash merge commits are represented by their nested commits (if any)
+  const changes = commitList.flatMap(commit =>
+    commit?.nestedCommits.length > 0 ? commit.nestedCommits : [commit]
+  );
+
   const changelog: TChangelog = new Map();
-  for (const commit of commitList) {
+  for (const commit of changes) {
     if (!commit) continue;
 
     const bumpLabel = Label.create("bump", SemVerType[commit.bump]);
     const typeLabel = Label.create("type", commit.type);
-    const scopeLabel = Label.create(
-      "scope",
-      commit.scope?.toLowerCase() || "*"
+    const scopes = [...new Set(commit.scopes.map(s => s.toLowerCase()))];
+    const scopeLabels = (scopes.length > 0 ? scopes : ["*"]).map(scope =>
+      Label.create("scope", scope)
     );
 
     // Adds the following items as "virtual" labels for each commit:
     // * The version bump (`bump:<version>`)
     // * The conventional commit type (`type:<type>`)
-    // * The conventional commit scope (`scope:<scope>`)
-    let labels: string[] = [bumpLabel, typeLabel, scopeLabel];
+    // * The conventional commit scope(s) (`scope:<scope>`)
+    let labels: string[] = [bumpLabel, typeLabel, ...scopeLabels];
 
     // We will reuse the labels and author associated with a Pull Request
     // (with the exception of `bump:<version>` and `scope:<scope>`) for all
@@ -254,13 +268,13 @@ export async function generateChangelogForCommits(
     }
 
     // Either group commits per Conventional Commit scope, or group them all
-    // together (*)
-    const scope =
-      config.changelog.group === "scope"
-        ? commit?.scope?.toLowerCase() || "*"
-        : "*";
+    // together (*). Commits touching multiple scopes are listed in each of them.
+    const groups =
+      config.changelog.group === "scope" && scopes.length > 0 ? scopes : ["*"];
 
-    changelog.set(scope, changelog.get(scope) ?? new Map<string, string[]>());
+    for (const scope of groups) {
+      changelog.set(scope, changelog.get(scope) ?? new Map<string, string[]>());
+    }
     for (const category of config.changelog.categories) {
       // Apply all exclusion patterns from Pull Request metadata on Category
       if (labels.some(label => category.exclude?.labels?.includes(label))) {
@@ -276,14 +290,14 @@ export async function generateChangelogForCommits(
         continue;
       }
 
-      if (changelog.get(scope)?.get(category.title) === undefined) {
-        changelog.get(scope)?.set(category.title, []);
-      }
+      const changelogEntry = await generateChangelogEntry(commit);
+      for (const scope of groups) {
+        if (changelog.get(scope)?.get(category.title) === undefined) {
+          changelog.get(scope)?.set(category.title, []);
+        }
 
-      changelog
-        .get(scope)
-        ?.get(category.title)
-        ?.push(await generateChangelogEntry(commit));
+        changelog.get(scope)?.get(category.title)?.push(changelogEntry);
+      }
 
       break;
     }
@@ -326,16 +340,20 @@ export async function generateChangelogForCommits(
 
 /**
  * Returns a markdown-formatted changelog, based on the info contained
- * in the provided `IVersionBumpTypeAndMessages`.
+ * in the provided `IVersionBumpTypeAndMessages`, up to `endVersion`
+ * (by default, the found version bumped by the required bump).
  */
 export async function generateChangelog(
-  bump: IVersionBumpTypeAndMessages
+  bump: IVersionBumpTypeAndMessages,
+  endVersion?: string
 ): Promise<string> {
   return await generateChangelogForCommits(
     bump.foundVersion?.toString() ?? "",
-    bump.foundVersion
-      ?.bump(bump.requiredBump, bump.initialDevelopment)
-      ?.version?.toString() ?? "",
+    endVersion ??
+      bump.foundVersion
+        ?.bump(bump.requiredBump, bump.initialDevelopment)
+        ?.version?.toString() ??
+      "",
     bump.processedCommits
       .map(c => c.message)
       .filter(c => c) as ConventionalCommitMessage[]
@@ -23,11 +23,27 @@ import * as os from "os";
 
 import * as Color from "./colors";
 
-import { ConventionalCommitMessage } from "../commit";
+import { ConventionalCommitMessage, stripMessage } from "../commit";
 import { Configuration } from "../config";
-import { ConventionalCommitError } from "../errors";
+import {
+  ConventionalCommitError,
+  FixupCommitError,
+  MergeCommitError,
+  RevertCommitError,
+} from "../errors";
+import { getRuleExplanation } from "../explanations";
+import { fixCommitMessage } from "../fix";
 import { Command } from "commander";
-import { getCommitMessages, prettyPrintCommitMessage } from "./utils";
+import { ICommit, IValidationResult } from "../interfaces";
+import { RETIRED_RULE_IDS, validatePullRequestRules } from "../rules";
+import {
+  applyGitConfig,
+  getAuthorIdentity,
+  getCommitMessages,
+  prettyPrintCommitMessage,
+  prettyPrintRuleExplanation,
+  printDiagnostic,
+} from "./utils";
 
 const program = new Command();
 
@@ -51,39 +67,60 @@ program
  When TARGET is omitted, 'HEAD' is implied.`
   )
   .action(async (target: string[], options) => {
-    const config = new Configuration(program.opts().config);
+    const config = new Configuration(program.opts().config, true);
+    await applyGitConfig(config);
 
     if (target.length === 0) {
       target = ["HEAD"];
     }
 
-    let messages: { sha: string; body: string }[] = [];
-    if (fs.existsSync(target.join(" "))) {
+    let messages: ICommit[] = [];
+    const isFile = fs.existsSync(target.join(" "));
+    if (isFile) {
       messages = [
         {
           sha: target.join(" "),
-          body: fs.readFileSync(target.join(" "), "utf8"),
+          message: fs.readFileSync(target.join(" "), "utf8"),
+          author: await getAuthorIdentity(),
         },
       ];
     } else {
-      messages = await getCommitMessages(target);
+      messages = await getCommitMessages(target, config);
     }
 
+    const results: IValidationResult[] = [];
     for (const message of messages) {
       try {
         const commitmessage = new ConventionalCommitMessage(
-          message.body,
+          message.message,
           message.sha,
-          config
+          config,
+          message.author,
+          message.files
         );
+        results.push({
+          input: message,
+          message: commitmessage,
+          errors: [],
+          warnings: commitmessage.warnings,
+        });
 
+        for (const warning of commitmessage.warnings) {
+          printDiagnostic(warning);
+        }
         if (options.verbose) {
           prettyPrintCommitMessage(commitmessage);
         }
       } catch (error: unknown) {
         if (error instanceof ConventionalCommitError) {
-          for (const err of error.errors) {
-            core.info(err.report());
+          results.push({
+            input: message,
+            message: undefined,
+            errors: error.errors,
+            warnings: error.warnings,
+          });
+          for (const err of [...error.errors, ...error.warnings]) {
+            printDiagnostic(err);
           }
           continue;
         }
@@ -91,6 +128,65 @@ program
         throw error;
       }
     }
+
+    // The commits of a revision range are validated as a whole as well
+    if (!isFile) {
+      for (const diagnostic of validatePullRequestRules(results, config)) {
+        printDiagnostic(diagnostic);
+      }
+    }
+  });
+
+program
+  .command("fix")
+  .description(
+    "Applies the machine-safe fixes to the commit message in the provided file, " +
+      "i.e. from a `commit-msg` hook."
+  )
+  .argument("<FILE>", "The file containing the commit message to fix")
+  .action(async (file: string) => {
+    const config = new Configuration(program.opts().config, true);
+    await applyGitConfig(config);
+    const message = stripMessage(
+      fs.readFileSync(file, "utf8"),
+      config.commentChar,
+      config.cleanupMode
+    );
+    const author = await getAuthorIdentity();
+
+    let errors;
+    try {
+      new ConventionalCommitMessage(message, undefined, config, author);
+      return;
+    } catch (error: unknown) {
+      if (
+        error instanceof MergeCommitError ||
+        error instanceof FixupCommitError ||
+        error instanceof RevertCommitError
+      ) {
+        // Merge-, fixup- and revert-commits are not validated, nor fixed
+        return;
+      }
+      if (!(error instanceof ConventionalCommitError)) {
+        throw error;
+      }
+      errors = error.errors;
+    }
+
+    const result = fixCommitMessage(message, errors, config, author);
+    for (const fixed of result.fixed) {
+      core.info(`${Color.GREEN("Fixed")}: ${fixed.report()}`);
+    }
+    for (const error of result.errors) {
+      printDiagnostic(error);
+    }
+
+    if (result.fixed.length > 0) {
+      fs.writeFileSync(file, `${result.message}${os.EOL}`);
+    }
+    if (result.errors.length > 0) {
+      process.exitCode = 1;
+    }
   });
 
 program
@@ -99,7 +195,7 @@ program
     "Lists the accepted Conventional Commit types and Rules (including description)"
   )
   .action(() => {
-    const config = new Configuration(program.opts().config);
+    const config = new Configuration(program.opts().config, true);
 
     core.info(
       dedent(`
@@ -108,10 +204,9 @@ program
     );
 
     for (const key in config.tags) {
+      const level = config.getBumpLevel(key);
       const bumps: string =
-        config.tags[key].bump && key !== "fix"
-          ? ` ${Color.YELLOW("(bumps patch)")}`
-          : "";
+        level !== "none" ? ` ${Color.YELLOW(`(bumps ${level})`)}` : "";
       core.info(
         `${key}: ${Color.GRAY(config.tags[key].description ?? "")}${bumps}`
       );
@@ -119,6 +214,27 @@ program
 
     core.info(os.EOL);
 
+    if (Object.keys(config.scopes).length > 0) {
+      core.info(
+        dedent(`
+      Conventional Commit scopes
+      --------------------------`)
+      );
+
+      for (const [scope, description] of Object.entries(config.scopes)) {
+        core.info(`${scope}: ${Color.GRAY(description)}`);
+      }
+      if (config.scopeRequiredTypes.length > 0) {
+        core.info(
+          Color.YELLOW(
+            `(required for: ${config.scopeRequiredTypes.join(", ")})`
+          )
+        );
+      }
+
+      core.info(os.EOL);
+    }
+
     core.info(
       dedent(`
     Commisery Validation rules
@@ -135,8 +251,43 @@ program
       const status: string = rule.enabled
         ? `${Color.GREEN("o")}`
         : `${Color.RED("x")}`;
-      core.info(`[${status}] ${key}: ${Color.GRAY(rule.description ?? "")}`);
+      const severity: string =
+        rule.enabled && rule.severity === "warning"
+          ? ` ${Color.YELLOW("(warning)")}`
+          : "";
+      core.info(
+        `[${status}] ${key}: ${Color.GRAY(rule.description ?? "")}${severity}`
+      );
     });
   });
 
+program
+  .command("explain")
+  .description(
+    "Explains why a rule exists, including examples of compliant and non-compliant commit messages"
+  )
+  .argument("<RULE>", "The ID of the rule to explain, e.g. C015")
+  .action((ruleId: string) => {
+    const config = new Configuration(program.opts().config, true);
+    const id = config.rules.has(ruleId) ? ruleId : ruleId.toUpperCase();
+
+    if (RETIRED_RULE_IDS.includes(id)) {
+      core.info(`Rule ${id} has been retired and is no longer validated.`);
+      return;
+    }
+
+    const rule = config.rules.get(id);
+    const explanation = getRuleExplanation(id, config);
+    if (rule === undefined) {
+      core.info(
+        `${Color.RED("Unknown rule")}: ${ruleId}; use the \`overview\` command to list the rules.`
+      );
+      process.exitCode = 1;
+    } else if (explanation === undefined) {
+      core.info(`${id}: ${rule.description ?? ""}`);
+    } else {
+      prettyPrintRuleExplanation(id, rule.description ?? "", explanation);
+    }
+  });
+
 program.parse();
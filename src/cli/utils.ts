@@ -14,12 +14,18 @@
  * limitations under the License.
  */
 
+import * as core from "@actions/core";
 import { GitError, simpleGit } from "simple-git";
 import { ConventionalCommitMessage } from "../commit";
 import * as Color from "./colors";
 import * as os from "os";
 import dedent from "dedent";
 import { SemVerType } from "../semver";
+import { Configuration, CLEANUP_MODES } from "../config";
+import { getRuleExplanationUrl } from "../explanations";
+import { CleanupMode, ICommit, IIdentity } from "../interfaces";
+import { LlvmMessage } from "../logging";
+import { getRuleId, IRuleExplanation } from "../rules";
 
 let __ROOT_PATH: string | undefined = undefined;
 
@@ -42,6 +48,32 @@ export async function getRootPath(): Promise<string> {
   return __ROOT_PATH;
 }
 
+/**
+ * Applies the comment character (`core.commentChar`) and cleanup mode
+ * (`commit.cleanup`) from the git configuration to `config`, unless these
+ * have been configured explicitly.
+ */
+export async function applyGitConfig(config: Configuration): Promise<void> {
+  const git = simpleGit(await getRootPath());
+  try {
+    const commentChar = (await git.getConfig("core.commentChar")).value;
+    // `auto` lets git select a character while preparing the message, which
+    // we cannot determine afterwards; assume the default instead.
+    if (commentChar && commentChar !== "auto") {
+      config.commentChar ??= commentChar;
+    }
+
+    const cleanupMode = (await git.getConfig("commit.cleanup")).value;
+    if (cleanupMode && CLEANUP_MODES.includes(cleanupMode)) {
+      config.cleanupMode ??= cleanupMode as CleanupMode;
+    }
+  } catch (error: unknown) {
+    if (!(error instanceof GitError)) {
+      throw error;
+    }
+  }
+}
+
 /**
  * Determines a list of commit hashes (based on `git rev-parse`) using the
  * provided target
@@ -51,25 +83,78 @@ async function getCommitHashes(target: string[]): Promise<string[]> {
 }
 
 /**
- * Retrieve the full commit message for the provided target
+ * Retrieve the full commit message, along with the identity of its author
+ * and committer (and optionally the files it changed), for the provided
+ * target
  */
-async function getCommitMessage(target: string): Promise<string> {
-  return await simpleGit(await getRootPath()).show([
-    "-q",
-    "--format=%B",
-    target,
-    "--",
-  ]);
+async function getCommit(
+  target: string,
+  retrieveFiles: boolean
+): Promise<ICommit> {
+  const [authorName, authorEmail, committerName, committerEmail, ...message] = (
+    await simpleGit(await getRootPath()).show([
+      "-q",
+      "--format=%an%n%ae%n%cn%n%ce%n%B",
+      target,
+      "--",
+    ])
+  ).split("\n");
+  const files = retrieveFiles
+    ? (
+        await simpleGit(await getRootPath()).show([
+          "--name-only",
+          "--format=",
+          target,
+          "--",
+        ])
+      )
+        .split("\n")
+        .filter(file => file !== "")
+    : undefined;
+
+  return {
+    sha: target,
+    message: message.join("\n"),
+    author: { name: authorName, email: authorEmail },
+    committer: { name: committerName, email: committerEmail },
+    files,
+  };
 }
 
 /**
- * Retrieves a list of commit messages based on the provided target
- * parameter
+ * Determines the identity of the author of the commit that is being created
+ * (i.e. from a `commit-msg` hook), or `undefined` if it cannot be determined.
+ */
+export async function getAuthorIdentity(): Promise<IIdentity | undefined> {
+  try {
+    const identity = await simpleGit(await getRootPath()).raw([
+      "var",
+      "GIT_AUTHOR_IDENT",
+    ]);
+    const groups = /^(?<name>.*) <(?<email>[^>]*)>/.exec(identity)?.groups;
+    return groups && { name: groups.name, email: groups.email };
+  } catch (error: unknown) {
+    if (error instanceof GitError) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Retrieves a list of commits (including their message) based on the
+ * provided target parameter. The files changed by each of the commits are
+ * only retrieved when required to validate the type tags against the
+ * configured `type-paths` (C040).
  */
 export async function getCommitMessages(
-  target: string[]
-): Promise<{ sha: string; body: string }[]> {
+  target: string[],
+  config: Configuration
+): Promise<ICommit[]> {
   const git = simpleGit(await getRootPath());
+  const retrieveFiles =
+    config.rules.get("C040")?.enabled !== false &&
+    Object.keys(config.typePaths).length > 0;
   let commitHashes: string[] = [];
 
   if (
@@ -83,10 +168,10 @@ export async function getCommitMessages(
     commitHashes.push(target[0]);
   }
 
-  const messages: { sha: string; body: string }[] = [];
+  const messages: ICommit[] = [];
   for (const hash of commitHashes) {
     try {
-      messages.push({ sha: hash, body: await getCommitMessage(hash) });
+      messages.push(await getCommit(hash, retrieveFiles));
     } catch (error: unknown) {
       continue;
     }
@@ -117,3 +202,55 @@ export function prettyPrintCommitMessage(
     `)
   );
 }
+
+/**
+ * Prints the diagnostic, along with a reference to the explanation of the
+ * rule that reported it
+ */
+export function printDiagnostic(diagnostic: LlvmMessage): void {
+  core.info(diagnostic.report());
+
+  const ruleId = getRuleId(diagnostic);
+  if (ruleId !== undefined) {
+    const url = getRuleExplanationUrl(diagnostic);
+    core.info(
+      Color.GRAY(
+        `Run 'commisery explain ${ruleId}'${
+          url ? ` or see ${url}` : ""
+        } for more information`
+      )
+    );
+  }
+}
+
+export function prettyPrintRuleExplanation(
+  ruleId: string,
+  description: string,
+  explanation: IRuleExplanation
+): void {
+  const indent = (message: string): string =>
+    message
+      .split("\n")
+      .map(line => `    ${line}`)
+      .join(os.EOL);
+
+  console.log(`${Color.RED(ruleId)}: ${description}`);
+  console.log("");
+  console.log(explanation.rationale);
+  for (const [title, examples] of [
+    [Color.GREEN("Compliant"), explanation.compliant],
+    [Color.RED("Non-compliant"), explanation.nonCompliant],
+  ] as const) {
+    for (const example of examples) {
+      console.log("");
+      console.log(`${title}:`);
+      console.log(Color.GRAY(indent(example)));
+    }
+  }
+  if (explanation.config && explanation.config.length > 0) {
+    console.log("");
+    console.log(
+      `${Color.GREEN("Configuration")}: ${explanation.config.join(", ")}`
+    );
+  }
+}
@@ -15,6 +15,7 @@
  */
 
 import { Configuration } from "./config";
+import { CleanupMode, IIdentity } from "./interfaces";
 import { validateRules } from "./rules";
 import {
   ConventionalCommitError,
@@ -22,24 +23,38 @@ import {
   MergeCommitError,
   RevertCommitError,
 } from "./errors";
+import { LlvmError, LlvmWarning } from "./logging";
+import {
+  IConventionalCommitAst,
+  ISourceRange,
+  parseCommitMessage,
+  splitScope,
+} from "./parser";
 import { SemVerType } from "./semver";
 
 import * as os from "os";
 
 const BREAKING_CHANGE_TOKEN = "BREAKING-CHANGE";
-const CONVENTIONAL_COMMIT_REGEX =
-  /(?<type>\w+)?((\s*)?\((?<scope>[^()]*)\)(\s*)?)?(?<breakingChange>((\s*)+[!]+(\s*)?)?)(?<separator>((\s+)?:?(\s+)?))(?<description>.*)/;
-const FOOTER_REGEX =
-  /^(?<token>[\w-]+|BREAKING\sCHANGE|[\w-\s]+\sby)(?::[ ]|[ ](?=#))(?<value>.*)/;
+const RELEASE_AS_TOKEN = "release-as";
+const SCISSORS_LINE = "------------------------ >8 ------------------------";
+const NESTED_COMMIT_REGEX = /^[*-] (?<header>\S.*)$/;
+const REVERTED_COMMIT_REGEX =
+  /^This reverts commit (?<sha>[0-9a-fA-F]{7,40})\b/m;
 
 /**
  * Conventional Commit Metadata used for validating
  * compliance with Conventional Commits
  */
 export interface ConventionalCommitMetadata {
+  ast: IConventionalCommitAst;
+  /* Author of the commit, if known */
+  author?: IIdentity;
   body: string[];
   breakingChange: string;
   description: string;
+  emoji: string;
+  /* Paths of the files changed by the commit, if known */
+  files?: string[];
   footers: Footer[];
   separator: string;
   scope: string;
@@ -53,10 +68,19 @@ export interface ConventionalCommitMetadata {
 class Footer {
   private _token!: string;
   private _value!: string;
+  readonly tokenRange?: ISourceRange;
+  readonly valueRange?: ISourceRange;
 
-  constructor(token: string, value: string) {
+  constructor(
+    token: string,
+    value: string,
+    tokenRange?: ISourceRange,
+    valueRange?: ISourceRange
+  ) {
     this.token = token;
     this.value = value;
+    this.tokenRange = tokenRange;
+    this.valueRange = valueRange;
   }
 
   set token(token: string) {
@@ -80,10 +104,6 @@ class Footer {
   get value(): string {
     return this._value.trimEnd();
   }
-
-  appendParagraph(paragraph: string): void {
-    this._value += os.EOL + paragraph;
-  }
 }
 
 /**
@@ -91,67 +111,33 @@ class Footer {
  * the classes properties.
  */
 export function getConventionalCommitMetadata(
-  message: string[]
+  message: string[],
+  author?: IIdentity,
+  files?: string[]
 ): ConventionalCommitMetadata {
-  let footers: Footer[] = [];
-  let body: string[] = [];
-
-  if (message.length > 1) {
-    let endOfBody = 1;
-    let ignoreEmptyLines = false;
-
-    // eslint-disable-next-line github/array-foreach
-    message.slice(1).forEach((line, index) => {
-      const matches = FOOTER_REGEX.exec(line)?.groups;
-      const currentTrailer = footers[footers.length - 1];
-      if (matches) {
-        footers.push(new Footer(matches.token, matches.value));
-        ignoreEmptyLines = false;
-      } else if (/^-{8,}$/.test(line)) {
-        // End current trailer when a `---------` line is detected (i.e. as inserted
-        // by GitHub for certain merge strategies).
-        ignoreEmptyLines = true;
-      } else if (ignoreEmptyLines && line.trim() === "") {
-        // Ignore empty lines after `---------` line
-        // until the next paragraph or footer element is detected.
-      } else if (currentTrailer && (/^\s+/.test(line) || line.trim() === "")) {
-        // Multiline trailers use folding (RFC822), the exception being for empty lines
-        currentTrailer.appendParagraph(line);
-      } else {
-        // Discard detected git trailers as non-compliant item has been found
-        endOfBody = index + 1;
-        footers = [];
-        ignoreEmptyLines = false;
-      }
-    });
-
-    // Set the body
-    if (endOfBody > 1) {
-      body = message.slice(1, endOfBody + 1);
-    } else {
-      body = [message[endOfBody]];
-    }
-  }
-
-  const conventionalSubject = CONVENTIONAL_COMMIT_REGEX.exec(
-    message[0]
-  )?.groups;
-
-  if (conventionalSubject === undefined) {
-    throw new Error(
-      `Commit is not compliant to Conventional Commits (non-strict)`
-    );
-  }
+  const ast = parseCommitMessage(message);
 
   const metadata: ConventionalCommitMetadata = {
-    body,
-    footers,
-    type: conventionalSubject.type,
-    scope: conventionalSubject.scope,
+    ast,
+    author,
+    files,
+    body: ast.body.map(line => line.value),
+    footers: ast.footers.map(
+      footer =>
+        new Footer(
+          footer.token.value,
+          footer.value.value,
+          footer.token.range,
+          footer.value.range
+        )
+    ),
+    type: ast.type?.value as string,
+    scope: ast.scope?.value as string,
     subject: message[0],
-    breakingChange: conventionalSubject.breakingChange,
-    separator: conventionalSubject.separator,
-    description: conventionalSubject.description,
+    breakingChange: ast.breakingChange?.value as string,
+    emoji: ast.emoji?.value as string,
+    separator: ast.separator?.value as string,
+    description: ast.description?.value as string,
   };
 
   return metadata;
@@ -161,23 +147,36 @@ export function getConventionalCommitMetadata(
  * Conventional Commit
  */
 export class ConventionalCommitMessage {
+  author: IIdentity | undefined;
   breakingChange: boolean;
   body: string | null;
   bump: SemVerType;
   config: Configuration;
   description: string;
+  emoji: string | null;
   footers: Footer[];
   hexsha: string | undefined;
+  nestedCommits: ConventionalCommitMessage[];
+  releaseAs: string | null;
+  reverts: string | null;
   scope: string | null;
+  scopes: string[];
   subject: string;
   type: string;
+  warnings: LlvmWarning[];
 
   constructor(
     message: string,
     hexsha: string | undefined = undefined,
-    config: Configuration = new Configuration()
+    config: Configuration = new Configuration(),
+    author: IIdentity | undefined = undefined,
+    files: string[] | undefined = undefined
   ) {
-    const splitMessage: string[] = stripMessage(message).split(os.EOL);
+    const splitMessage: string[] = stripMessage(
+      message,
+      config.commentChar,
+      config.cleanupMode
+    ).split(os.EOL);
 
     // Skip merge-, fixup- and revert-commits
     if (isMerge(splitMessage[0])) {
@@ -189,14 +188,15 @@ export class ConventionalCommitMessage {
     }
 
     if (isRevert(splitMessage[0])) {
-      throw new RevertCommitError();
+      throw new RevertCommitError(getRevertedCommit(message));
     }
 
+    this.author = author;
     this.hexsha = hexsha;
     this.config = config;
 
     // Initializes class based on commit message
-    const metadata = getConventionalCommitMetadata(splitMessage);
+    const metadata = getConventionalCommitMetadata(splitMessage, author, files);
     if (metadata === undefined) {
       throw new ConventionalCommitError(
         `Commit is not a Conventional Commit type!`,
@@ -204,13 +204,17 @@ export class ConventionalCommitMessage {
       );
     }
 
-    // Validate whether this is a valid Conventional Commit
-    const errors = validateRules(metadata, this.config);
+    // Validate whether this is a valid Conventional Commit; warnings do not
+    // affect compliance
+    const diagnostics = validateRules(metadata, this.config);
+    const errors = diagnostics.filter(d => d instanceof LlvmError);
+    this.warnings = diagnostics.filter(d => d instanceof LlvmWarning);
 
     if (errors.length > 0) {
       throw new ConventionalCommitError(
         `Commit is not compliant to Conventional Commits!`,
-        errors
+        errors,
+        this.warnings
       );
     }
 
@@ -220,47 +224,109 @@ export class ConventionalCommitMessage {
     }
 
     this.description = metadata.description;
+    this.emoji = metadata.emoji ?? null;
+    this.reverts = getRevertedCommit(message) ?? null;
     this.footers = metadata.footers;
+    this.releaseAs =
+      this.footers
+        .find(footer => footer.token.toLowerCase() === RELEASE_AS_TOKEN)
+        ?.value.trim() ?? null;
     this.scope = metadata.scope ? metadata.scope : null;
+    this.scopes = metadata.ast.scope
+      ? splitScope(metadata.ast.scope, this.config.scopeSeparator)
+          .map(scope => scope.value.trim())
+          .filter(scope => scope !== "")
+      : [];
     this.type = metadata.type;
     this.subject = metadata.subject;
 
     this.bump = this.determineBump(metadata);
-    this.breakingChange = this.bump === SemVerType.MAJOR;
+    this.breakingChange = this.isBreakingChange(metadata);
+
+    this.nestedCommits = this.config.expandSquashCommits
+      ? this.parseNestedCommits(metadata)
+      : [];
   }
 
-  determineBump(metadata: ConventionalCommitMetadata): SemVerType {
-    for (const footer of metadata.footers) {
-      if (footer.token === BREAKING_CHANGE_TOKEN) {
-        return SemVerType.MAJOR;
+  /**
+   * Parses the bulleted Conventional Commit headers in the body of the
+   * message (i.e. as generated by GitHub for squash merges). Bullets that
+   * are not compliant with Conventional Commits are ignored.
+   */
+  parseNestedCommits(
+    metadata: ConventionalCommitMetadata
+  ): ConventionalCommitMessage[] {
+    const nestedCommits: ConventionalCommitMessage[] = [];
+
+    for (const line of metadata.body.slice(1)) {
+      const header = NESTED_COMMIT_REGEX.exec(line)?.groups?.header;
+      if (header === undefined) {
+        continue;
       }
-    }
-    if (metadata.type === undefined) {
-      return SemVerType.NONE;
-    }
-
-    if (metadata.breakingChange === "!") {
-      return SemVerType.MAJOR;
-    }
 
-    if (metadata.type.trim() === "feat") {
-      return SemVerType.MINOR;
+      try {
+        nestedCommits.push(
+          new ConventionalCommitMessage(header, this.hexsha, this.config)
+        );
+      } catch (error: unknown) {
+        if (
+          error instanceof ConventionalCommitError ||
+          error instanceof MergeCommitError ||
+          error instanceof FixupCommitError ||
+          error instanceof RevertCommitError
+        ) {
+          continue;
+        }
+
+        throw error;
+      }
     }
 
-    const patchBumpingTypes: string[] = Object.entries(this.config.tags)
-      .map(([key, value]) => (value.bump ? key : undefined))
-      .filter((e): e is string => e !== undefined);
+    return nestedCommits;
+  }
 
-    if (!patchBumpingTypes.includes("fix")) patchBumpingTypes.push("fix");
+  /**
+   * Returns whether the commit is marked as breaking change, either by the
+   * `!` indicator or by a `BREAKING CHANGE` footer. Types configured to bump
+   * the major version are not considered breaking by themselves.
+   */
+  isBreakingChange(metadata: ConventionalCommitMetadata): boolean {
+    return (
+      metadata.breakingChange === "!" ||
+      metadata.footers.some(footer => footer.token === BREAKING_CHANGE_TOKEN)
+    );
+  }
 
-    if (patchBumpingTypes.includes(metadata.type.trim())) {
-      return SemVerType.PATCH;
+  determineBump(metadata: ConventionalCommitMetadata): SemVerType {
+    if (this.isBreakingChange(metadata)) {
+      return SemVerType.MAJOR;
+    }
+    if (metadata.type === undefined) {
+      return SemVerType.NONE;
     }
 
-    return SemVerType.NONE;
+    switch (this.config.getBumpLevel(metadata.type.trim())) {
+      case "major":
+        return SemVerType.MAJOR;
+      case "minor":
+        return SemVerType.MINOR;
+      case "patch":
+        return SemVerType.PATCH;
+      default:
+        return SemVerType.NONE;
+    }
   }
 }
 
+/**
+ * Returns the (potentially abbreviated) hash of the commit reverted by the
+ * provided commit message, as referenced by the `This reverts commit <sha>.`
+ * line that `git revert` adds to the message body.
+ */
+export function getRevertedCommit(message: string): string | undefined {
+  return REVERTED_COMMIT_REGEX.exec(message)?.groups?.sha.toLowerCase();
+}
+
 function isFixup(subject: string): boolean {
   return /^(?:(?:fixup|squash)!\s+)+/.test(subject);
 }
@@ -273,21 +339,38 @@ function isRevert(subject: string): boolean {
   return subject.startsWith('Revert "');
 }
 
-function stripMessage(message: string): string {
-  const cutLine = message.indexOf(
-    "# ------------------------ >8 ------------------------\n"
-  );
+/**
+ * Removes what git's cleanup would remove for the provided cleanup mode, yet
+ * retains what is subject to validation. Commentary (using `commentChar`) and
+ * everything following the scissors line are removed, as are the whitespace
+ * and empty lines at the start and end of the (LF or CRLF separated) message.
+ * Contrary to git, the trailing whitespace of the individual lines (C033) and
+ * consecutive empty lines are retained. The lines of the resulting message
+ * are separated by `os.EOL`.
+ */
+export function stripMessage(
+  message: string,
+  commentChar = "#",
+  cleanupMode: CleanupMode = "strip"
+): string {
+  let lines = message.split(/\r?\n/);
+  if (cleanupMode === "verbatim") {
+    return lines.join(os.EOL);
+  }
 
-  if (cutLine >= 0 && (cutLine === 0 || message[cutLine - 1] === "\n")) {
-    message = message.substring(cutLine);
+  if (cleanupMode !== "whitespace") {
+    const cutLine = lines.indexOf(`${commentChar} ${SCISSORS_LINE}`);
+    if (cutLine >= 0) {
+      lines = lines.slice(0, cutLine);
+    }
   }
 
   // Strip comments
-  message = message.replace(/^#[^\n]*\n?/, "");
-  // Strip trailing whitespace from lines
-  message = message.replace(/[ \t]+$/, "");
-  // Remove empty lines from the beginning and end
-  message = message.trim();
+  if (cleanupMode === "strip") {
+    lines = lines.filter(line => !line.startsWith(commentChar));
+  }
 
-  return message;
+  // Remove empty lines from the beginning and end; trailing whitespace of the
+  // individual lines is retained, to be reported by C033
+  return lines.join(os.EOL).trim();
 }
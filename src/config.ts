@@ -14,8 +14,19 @@
  * limitations under the License.
  */
 
-import { ALL_RULES } from "./rules";
 import {
+  ALL_PULL_REQUEST_RULES,
+  ALL_RULES,
+  CustomRule,
+  IConventionalCommitRule,
+  RETIRED_RULE_IDS,
+} from "./rules";
+import {
+  BumpLevel,
+  CleanupMode,
+  CustomRuleTarget,
+  ICustomRuleConfigItem,
+  RuleSeverity,
   IRuleConfigItem,
   IConfigurationRules,
   ITypeTagConfigItem,
@@ -23,6 +34,8 @@ import {
 
 import * as core from "@actions/core";
 import * as fs from "fs";
+import * as path from "path";
+import { createRequire } from "module";
 import * as yaml from "yaml";
 
 const DEFAULT_CONFIGURATION_FILE = ".commisery.yml";
@@ -64,9 +77,29 @@ const DEFAULT_ACCEPTED_TAGS: IConfigurationRules = {
 
 const CONFIG_ITEMS = [
   "max-subject-length",
+  "body",
+  "pull-request",
+  "scope-separator",
+  "scopes",
   "tags",
   "enable",
   "disable",
+  "custom-rules",
+  "plugins",
+  "severity",
+  "expand-squash-commits",
+  "fixup-commits",
+  "comment-char",
+  "cleanup-mode",
+  "emoji-types",
+  "type-paths",
+  "emoji-in-changelog",
+  "review-remark-phrases",
+  "work-in-progress-phrases",
+  "imperative-mood-exceptions",
+  "dco-allowed-bots",
+  "forbid-suppression",
+  "issue-references",
   "allowed-branches",
   "initial-development",
   "version-prefix",
@@ -79,6 +112,29 @@ const CONFIG_ITEMS = [
 ];
 
 export const VERSION_SCHEMES = ["semver", "sdkver"];
+export const BUMP_LEVELS = ["none", "patch", "minor", "major"];
+export const CLEANUP_MODES = ["strip", "whitespace", "verbatim", "scissors"];
+export const FIXUP_COMMIT_POLICIES = ["allow", "warn", "fail"];
+export const RULE_SEVERITIES = ["error", "warning", "off"];
+export const SCOPE_SOURCES = ["workspaces", "directories"];
+/* Words that resemble a (Jira) issue reference, i.e. `UTF-8` or `SHA-256` */
+export const DEFAULT_ISSUE_IGNORED_WORDS = [
+  "AES",
+  "CVE",
+  "PEP",
+  "SHA",
+  "UTF",
+  "VT",
+];
+export const CUSTOM_RULE_TARGETS = [
+  "subject",
+  "type",
+  "scope",
+  "description",
+  "body",
+  "footer-token",
+  "footer-value",
+];
 /**
  * This function takes two values and throws when their types don't match.
  */
@@ -94,14 +150,235 @@ function verifyTypeMatches(
   }
 }
 
+/**
+ * Returns the directories matching a workspace pattern (i.e. `packages/*`),
+ * relative to `baseDir`. Only a trailing wildcard is supported.
+ */
+function expandWorkspacePattern(baseDir: string, pattern: string): string[] {
+  const parts = pattern.replace(/\/+$/, "").split("/");
+  if (!["*", "**"].includes(parts[parts.length - 1])) {
+    return [path.join(baseDir, pattern)];
+  }
+
+  const parent = path.join(baseDir, ...parts.slice(0, -1));
+  if (!fs.existsSync(parent)) {
+    return [];
+  }
+  return fs
+    .readdirSync(parent, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => path.join(parent, entry.name));
+}
+
+/**
+ * Derives the scopes from the names of the (npm) workspace packages or the
+ * top-level directories in `baseDir`.
+ */
+function deriveScopes(baseDir: string, source: string): string[] {
+  if (source === "directories") {
+    return fs
+      .readdirSync(baseDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .filter(name => !name.startsWith(".") && name !== "node_modules");
+  }
+
+  const manifest = path.join(baseDir, "package.json");
+  if (!fs.existsSync(manifest)) {
+    return [];
+  }
+  const { workspaces } = JSON.parse(fs.readFileSync(manifest, "utf8"));
+  const patterns: string[] =
+    (Array.isArray(workspaces) ? workspaces : workspaces?.packages) ?? [];
+
+  const scopes: string[] = [];
+  for (const directory of patterns.flatMap(pattern =>
+    expandWorkspacePattern(baseDir, pattern)
+  )) {
+    const packageManifest = path.join(directory, "package.json");
+    if (fs.existsSync(packageManifest)) {
+      const { name } = JSON.parse(fs.readFileSync(packageManifest, "utf8"));
+      // Scoped package names (`@org/name`) are used without their scope
+      if (typeof name === "string") {
+        scopes.push(name.replace(/^@[^/]+\//, ""));
+      }
+    }
+  }
+  return scopes;
+}
+
+/**
+ * Loads the rules exported by the plugin module at `pluginPath`. The module
+ * exports either a single rule, a list of rules or an object containing a
+ * list of `rules` (optionally as `default` export).
+ */
+function loadPlugin(
+  pluginPath: string,
+  usedIds: string[]
+): IConventionalCommitRule[] {
+  if (!fs.existsSync(pluginPath)) {
+    throw new Error(`No plugin can be found at: ${pluginPath}`);
+  }
+  const exported = createRequire(pluginPath)(pluginPath);
+  // A rule's (boolean) `default` property is not to be mistaken for a default export
+  const plugin =
+    typeof exported?.default === "object" ? exported.default : exported;
+  const rules: unknown[] = Array.isArray(plugin)
+    ? plugin
+    : (plugin?.rules ?? [plugin]);
+
+  for (const rule of rules as IConventionalCommitRule[]) {
+    if (
+      typeof rule?.id !== "string" ||
+      typeof rule.description !== "string" ||
+      typeof rule.default !== "boolean" ||
+      typeof rule.validate !== "function"
+    ) {
+      throw new Error(
+        `Plugin '${pluginPath}' exports an invalid rule, ` +
+          "it must provide an 'id', 'description', 'default' and 'validate'!"
+      );
+    }
+    if (usedIds.includes(rule.id)) {
+      throw new Error(
+        `Plugin '${pluginPath}' exports rule '${rule.id}', rule ID is already in use!`
+      );
+    }
+    usedIds.push(rule.id);
+  }
+  return rules as IConventionalCommitRule[];
+}
+
+/**
+ * Parses a single entry of the `custom-rules` configuration item; `usedIds`
+ * contains the IDs that are already taken by other rules.
+ */
+function parseCustomRule(
+  name: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  item: any,
+  usedIds: string[]
+): ICustomRuleConfigItem {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) {
+    throw new Error(
+      `Incorrect type '${typeof item}' for '${name}', must be '${typeof {}}'!`
+    );
+  }
+
+  for (const entry of Object.keys(item)) {
+    if (
+      ![
+        "id",
+        "target",
+        "must-match",
+        "must-not-match",
+        "message",
+        "default",
+      ].includes(entry)
+    ) {
+      core.warning(`Warning: "${name}.${entry}" is unknown and has no effect.`);
+    }
+  }
+
+  verifyTypeMatches(`${name}.id`, item.id, "");
+  if (usedIds.includes(item.id)) {
+    throw new Error(
+      `Incorrect value '${item.id}' for '${name}.id', rule ID is already in use!`
+    );
+  }
+
+  if (!CUSTOM_RULE_TARGETS.includes(item.target)) {
+    throw new Error(
+      `Incorrect value '${
+        item.target
+      }' for '${name}.target', must be one of: '${CUSTOM_RULE_TARGETS.join(
+        "', '"
+      )}'`
+    );
+  }
+
+  if (
+    item["must-match"] === undefined &&
+    item["must-not-match"] === undefined
+  ) {
+    throw new Error(
+      `Missing 'must-match' or 'must-not-match' for '${name}' (${item.id})!`
+    );
+  }
+  for (const entry of ["must-match", "must-not-match"]) {
+    if (item[entry] === undefined) {
+      continue;
+    }
+    verifyTypeMatches(`${name}.${entry}`, item[entry], "");
+    try {
+      new RegExp(item[entry]);
+    } catch {
+      throw new Error(
+        `Incorrect value '${item[entry]}' for '${name}.${entry}', must be a valid regular expression!`
+      );
+    }
+  }
+
+  verifyTypeMatches(`${name}.message`, item.message, "");
+  if (item.default !== undefined) {
+    verifyTypeMatches(`${name}.default`, item.default, true);
+  }
+
+  return {
+    id: item.id,
+    target: item.target as CustomRuleTarget,
+    mustMatch: item["must-match"],
+    mustNotMatch: item["must-not-match"],
+    message: item.message,
+    default: item.default ?? true,
+  };
+}
+
 /**
  * Configuration (from file)
  */
 export class Configuration {
   private _initialDevelopment = true;
+  private allowPlugins = false;
 
   allowedBranches = ".*";
+  cleanupMode?: CleanupMode = undefined;
+  commentChar?: string = undefined;
+  customRules: CustomRule[] = [];
+  pluginRules: IConventionalCommitRule[] = [];
+  emojiInChangelog = false;
+  emojiTypes: { [emoji: string]: string } = {};
+  /* Path patterns of the files each type tag is allowed to change */
+  typePaths: { [type: string]: string[] } = {};
+  expandSquashCommits = false;
+  fixupCommits = "allow";
   maxSubjectLength = 80;
+  /* Body line length limit; body lines are not limited if undefined */
+  maxBodyLineLength?: number = undefined;
+  minBodyLength = 0;
+  /* Maximum number of commits in a pull request; not limited if undefined */
+  maxPullRequestCommits?: number = undefined;
+  bodyRequiredTypes: string[] = [];
+  bodyRequiredForBreakingChanges = false;
+  reviewRemarkPhrases: string[] = [];
+  workInProgressPhrases: string[] = [];
+  imperativeMoodExceptions: string[] = [];
+  /* Authors (name or email, `*` wildcards allowed) exempt from the sign-off requirement */
+  dcoAllowedBots: string[] = [];
+  /* Rules that may not be suppressed using the `Commisery-Disable` git-trailer */
+  forbiddenSuppressions: string[] = [];
+  /* Project keys of (Jira) issue references; any key is accepted if empty */
+  issueProjectKeys: string[] = [];
+  /* Whether (cross-repository) GitHub references are detected; when not
+   * configured, these are detected anywhere but in the subject (C019) */
+  issueGitHubReferences?: boolean;
+  issueCrossRepositoryReferences?: boolean;
+  issuePatterns: string[] = [];
+  issueIgnoredWords: string[] = [...DEFAULT_ISSUE_IGNORED_WORDS];
+  scopeSeparator = ",";
+  /* Allowed scopes (along with their description); any scope is allowed if empty */
+  scopes: { [scope: string]: string } = {};
+  scopeRequiredTypes: string[] = [];
   releaseBranches = /^release\/.*\d+\.\d+\.*$/;
   releaseDiscussionCategory?: string = undefined;
   versionPrefix = "*";
@@ -120,6 +397,54 @@ export class Configuration {
     return this._initialDevelopment;
   }
 
+  /**
+   * Returns the bump level of the provided commit type. Types configured with
+   * the (legacy) boolean `bump` value bump PATCH when `true`, with the
+   * exception of `feat` (always MINOR) and `fix` (always PATCH).
+   */
+  getBumpLevel(type: string): BumpLevel {
+    const bump = this.tags[type]?.bump;
+    if (typeof bump === "string") {
+      return bump;
+    }
+    if (type === "feat") {
+      return "minor";
+    }
+    return bump || type === "fix" ? "patch" : "none";
+  }
+
+  /**
+   * Returns the regular expression matching the issue references configured
+   * by `issue-references`, i.e. `TEST-123`, `#123` or `owner/repo#123`.
+   * Unless configured explicitly, GitHub references are not matched when
+   * `subject` is set, as these commonly refer to pull requests.
+   */
+  getIssueReferenceRegex(flags = "", subject = false): RegExp {
+    const escape = (word: string): string =>
+      word.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&");
+    const projectKey =
+      this.issueProjectKeys.length > 0
+        ? `(?:${this.issueProjectKeys.map(escape).join("|")})`
+        : "[A-Z]+";
+
+    const alternatives = [
+      ...this.issuePatterns.map(pattern => `(?:${pattern})`),
+      ...((this.issueCrossRepositoryReferences ?? !subject)
+        ? ["\\b[\\w.-]+/[\\w.-]+#[0-9]+\\b"]
+        : []),
+      `\\b${projectKey}-[0-9]+\\b(?!-)`,
+      ...((this.issueGitHubReferences ?? !subject)
+        ? ["(?<![\\w/])#[0-9]+\\b"]
+        : []),
+    ];
+    const ignored =
+      this.issueIgnoredWords.length > 0
+        ? `(?!\\b(?:${this.issueIgnoredWords.map(escape).join("|")})\\b)`
+        : "";
+
+    return new RegExp(`${ignored}(?:${alternatives.join("|")})`, flags);
+  }
+
   setRuleActive(ruleId: string, enabled: boolean): void {
     const rule = this.rules.get(ruleId);
     if (rule !== undefined) {
@@ -131,9 +456,34 @@ export class Configuration {
     }
   }
 
+  /**
+   * Sets the severity of the provided rule; rules with severity "off" are
+   * disabled, whereas the other severities enable the rule.
+   */
+  setRuleSeverity(ruleId: string, severity: RuleSeverity): void {
+    const rule = this.rules.get(ruleId);
+    if (rule === undefined) {
+      core.warning(
+        `Rule "${ruleId}" is unknown; setting its severity has no effect.`
+      );
+    } else if (severity === "off") {
+      rule.enabled = false;
+    } else {
+      rule.enabled = true;
+      rule.severity = severity;
+    }
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private loadFromData(data: any): void {
-    for (const key in data) {
+  private loadFromData(data: any, baseDir = "."): void {
+    // Custom and plugin rules need to be known before they can be enabled or
+    // disabled
+    const isRuleDefinition = (key: string): number =>
+      Number(["custom-rules", "plugins"].includes(key));
+    const keys = Object.keys(data ?? {}).sort(
+      (a, b) => isRuleDefinition(b) - isRuleDefinition(a)
+    );
+    for (const key of keys) {
       if (!CONFIG_ITEMS.includes(key)) {
         throw new Error(`Unknown configuration item '${key}' detected!`);
       }
@@ -161,6 +511,454 @@ export class Configuration {
           }
           break;
 
+        case "custom-rules":
+          /* Example YAML:
+           *   custom-rules:
+           *     - id: X001
+           *       target: description
+           *       must-not-match: "\\bWIP\\b"
+           *       message: Description should not mark work in progress
+           *     - id: X002
+           *       target: footer-token
+           *       must-match: "^Implements$"
+           *       message: Commit should implement a ticket
+           *       default: false
+           */
+          if (Array.isArray(data[key])) {
+            for (const [index, item] of data[key].entries()) {
+              const rule = new CustomRule(
+                parseCustomRule(`${key}[${index}]`, item, [
+                  ...this.rules.keys(),
+                  ...RETIRED_RULE_IDS,
+                ])
+              );
+              this.customRules.push(rule);
+              this.rules.set(rule.id, {
+                description: rule.description,
+                enabled: rule.default,
+              });
+            }
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of rules!`
+            );
+          }
+          break;
+
+        case "plugins":
+          /* Example YAML:
+           *   plugins:
+           *     - ./commisery/service-registry.js
+           */
+          if (
+            Array.isArray(data[key]) &&
+            data[key].every((plugin: unknown) => typeof plugin === "string")
+          ) {
+            if (!this.allowPlugins) {
+              core.warning(
+                `Warning: "${key}" are not allowed and have no effect.`
+              );
+              break;
+            }
+            for (const plugin of data[key]) {
+              const pluginPath = path.resolve(baseDir, plugin);
+              const relativePath = path.relative(
+                path.resolve(baseDir),
+                pluginPath
+              );
+              if (
+                relativePath.startsWith("..") ||
+                path.isAbsolute(relativePath)
+              ) {
+                throw new Error(
+                  `Plugin '${plugin}' is located outside of the directory containing the configuration!`
+                );
+              }
+              for (const rule of loadPlugin(pluginPath, [
+                ...this.rules.keys(),
+                ...RETIRED_RULE_IDS,
+              ])) {
+                this.pluginRules.push(rule);
+                this.rules.set(rule.id, {
+                  description: rule.description,
+                  enabled: rule.default,
+                });
+              }
+            }
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of strings!`
+            );
+          }
+          break;
+
+        case "severity":
+          /* Example YAML:
+           *   severity:
+           *     C014: warning
+           *     C016: off
+           */
+          verifyTypeMatches(key, data[key], {});
+          for (const ruleId of Object.keys(data[key])) {
+            if (!RULE_SEVERITIES.includes(data[key][ruleId])) {
+              throw new Error(
+                `Incorrect value '${
+                  data[key][ruleId]
+                }' for '${key}.${ruleId}', must be one of: '${RULE_SEVERITIES.join(
+                  "', '"
+                )}'`
+              );
+            }
+            this.setRuleSeverity(ruleId, data[key][ruleId]);
+          }
+          break;
+
+        case "expand-squash-commits":
+          /* Example YAML:
+           *   expand-squash-commits: true
+           */
+          if (typeof data[key] === "boolean") {
+            this.expandSquashCommits = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be '${typeof this.expandSquashCommits}'!`
+            );
+          }
+          break;
+
+        case "fixup-commits":
+          /* Example YAML:
+           *   fixup-commits: "warn"
+           */
+          if (typeof data[key] === "string") {
+            if (FIXUP_COMMIT_POLICIES.includes(data[key])) {
+              this.fixupCommits = data[key];
+            } else {
+              throw new Error(
+                `Incorrect value '${
+                  data[key]
+                }' for '${key}', must be one of: '${FIXUP_COMMIT_POLICIES.join(
+                  "', '"
+                )}'`
+              );
+            }
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be '${typeof this.fixupCommits}'!`
+            );
+          }
+          break;
+
+        case "comment-char":
+          /* Example YAML:
+           *   comment-char: ";"
+           */
+          if (typeof data[key] === "string" && data[key].length === 1) {
+            this.commentChar = data[key];
+          } else {
+            throw new Error(
+              `Incorrect value '${data[key]}' for '${key}', must be a single character!`
+            );
+          }
+          break;
+
+        case "cleanup-mode":
+          /* Example YAML:
+           *   cleanup-mode: "scissors"
+           */
+          if (typeof data[key] === "string") {
+            if (CLEANUP_MODES.includes(data[key])) {
+              this.cleanupMode = data[key] as CleanupMode;
+            } else {
+              throw new Error(
+                `Incorrect value '${
+                  data[key]
+                }' for '${key}', must be one of: '${CLEANUP_MODES.join(
+                  "', '"
+                )}'`
+              );
+            }
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[key]}' for '${key}', must be 'string'!`
+            );
+          }
+          break;
+
+        case "emoji-types":
+          /* Example YAML:
+           *   emoji-types:
+           *     ":sparkles:": feat
+           *     "✨": feat
+           *     ":bug:": fix
+           */
+          verifyTypeMatches(key, data[key], {});
+          this.emojiTypes = {};
+          for (const emoji of Object.keys(data[key])) {
+            verifyTypeMatches(`${key}.${emoji}`, data[key][emoji], "");
+            this.emojiTypes[emoji] = data[key][emoji];
+          }
+          break;
+
+        case "type-paths":
+          /* Example YAML:
+           *   type-paths:
+           *     docs: ["docs/**", "*.md"]
+           *     test: ["test/**"]
+           */
+          verifyTypeMatches(key, data[key], {});
+          this.typePaths = {};
+          for (const type of Object.keys(data[key])) {
+            const patterns = data[key][type];
+            if (
+              !Array.isArray(patterns) ||
+              !patterns.every((pattern: unknown) => typeof pattern === "string")
+            ) {
+              throw new Error(
+                `Incorrect type '${typeof patterns}' for '${key}.${type}', must be a list of strings!`
+              );
+            }
+            this.typePaths[type] = patterns;
+          }
+          break;
+
+        case "emoji-in-changelog":
+          /* Example YAML:
+           *   emoji-in-changelog: true
+           */
+          if (typeof data[key] === "boolean") {
+            this.emojiInChangelog = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be '${typeof this.emojiInChangelog}'!`
+            );
+          }
+          break;
+
+        case "imperative-mood-exceptions":
+          /* Example YAML:
+           *   imperative-mood-exceptions:
+           *     - logging
+           *     - tests
+           */
+          if (
+            Array.isArray(data[key]) &&
+            data[key].every((word: unknown) => typeof word === "string")
+          ) {
+            this.imperativeMoodExceptions = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of strings!`
+            );
+          }
+          break;
+
+        case "dco-allowed-bots":
+          /* Example YAML:
+           *   dco-allowed-bots:
+           *     - dependabot[bot]
+           *     - "*@users.noreply.github.com"
+           */
+          if (
+            Array.isArray(data[key]) &&
+            data[key].every((bot: unknown) => typeof bot === "string")
+          ) {
+            this.dcoAllowedBots = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of strings!`
+            );
+          }
+          break;
+
+        case "forbid-suppression":
+          /* Example YAML:
+           *   forbid-suppression:
+           *     - C026
+           *     - C034
+           */
+          if (
+            Array.isArray(data[key]) &&
+            data[key].every((rule: unknown) => typeof rule === "string")
+          ) {
+            this.forbiddenSuppressions = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of strings!`
+            );
+          }
+          break;
+
+        case "issue-references":
+          /* Example YAML:
+           *   issue-references:
+           *     project-keys:
+           *       - TEST
+           *       - PROJ
+           *     github: true
+           *     cross-repository: false
+           *     patterns:
+           *       - "SR[0-9]{6}"
+           *     ignore:
+           *       - UTF
+           */
+          verifyTypeMatches(key, data[key], {});
+          for (const entry of Object.keys(data[key])) {
+            const value = data[key][entry];
+            if (["project-keys", "patterns", "ignore"].includes(entry)) {
+              if (
+                !Array.isArray(value) ||
+                !value.every(item => typeof item === "string")
+              ) {
+                throw new Error(
+                  `Incorrect type '${typeof value}' for '${key}.${entry}', must be a list of strings!`
+                );
+              }
+            }
+
+            if (entry === "project-keys") {
+              this.issueProjectKeys = value;
+            } else if (entry === "github") {
+              verifyTypeMatches(`${key}.${entry}`, value, true);
+              this.issueGitHubReferences = value;
+            } else if (entry === "cross-repository") {
+              verifyTypeMatches(`${key}.${entry}`, value, true);
+              this.issueCrossRepositoryReferences = value;
+            } else if (entry === "patterns") {
+              for (const pattern of value) {
+                try {
+                  new RegExp(pattern);
+                } catch {
+                  throw new Error(
+                    `Incorrect value '${pattern}' for '${key}.${entry}', must be a valid regular expression!`
+                  );
+                }
+              }
+              this.issuePatterns = value;
+            } else if (entry === "ignore") {
+              this.issueIgnoredWords = value;
+            } else {
+              core.warning(
+                `Warning: "${key}.${entry}" is unknown and has no effect.`
+              );
+            }
+          }
+          break;
+
+        case "work-in-progress-phrases":
+          /* Example YAML:
+           *   work-in-progress-phrases:
+           *     - needs cleanup
+           *     - squash me
+           */
+          if (
+            Array.isArray(data[key]) &&
+            data[key].every((phrase: unknown) => typeof phrase === "string")
+          ) {
+            this.workInProgressPhrases = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of strings!`
+            );
+          }
+          break;
+
+        case "review-remark-phrases":
+          /* Example YAML:
+           *   review-remark-phrases:
+           *     - rework comment
+           *     - as discussed
+           */
+          if (
+            Array.isArray(data[key]) &&
+            data[key].every((phrase: unknown) => typeof phrase === "string")
+          ) {
+            this.reviewRemarkPhrases = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be a list of strings!`
+            );
+          }
+          break;
+
+        case "body":
+          /* Example YAML:
+           *   body:
+           *     max-line-length: 72
+           *     min-length: 20
+           *     required-for:
+           *       - feat
+           *     required-for-breaking-changes: true
+           */
+          verifyTypeMatches(key, data[key], {});
+          for (const entry of Object.keys(data[key])) {
+            const value = data[key][entry];
+            if (entry === "max-line-length") {
+              verifyTypeMatches(`${key}.${entry}`, value, 0);
+              this.maxBodyLineLength = value;
+            } else if (entry === "min-length") {
+              verifyTypeMatches(`${key}.${entry}`, value, 0);
+              this.minBodyLength = value;
+            } else if (entry === "required-for") {
+              if (
+                !Array.isArray(value) ||
+                !value.every(type => typeof type === "string")
+              ) {
+                throw new Error(
+                  `Incorrect type '${typeof value}' for '${key}.${entry}', must be a list of strings!`
+                );
+              }
+              this.bodyRequiredTypes = value;
+            } else if (entry === "required-for-breaking-changes") {
+              verifyTypeMatches(`${key}.${entry}`, value, true);
+              this.bodyRequiredForBreakingChanges = value;
+            } else {
+              core.warning(
+                `Warning: "${key}.${entry}" is unknown and has no effect.`
+              );
+            }
+          }
+          break;
+
+        case "pull-request":
+          /* Example YAML:
+           *   pull-request:
+           *     max-commits: 10
+           */
+          verifyTypeMatches(key, data[key], {});
+          for (const entry of Object.keys(data[key])) {
+            const value = data[key][entry];
+            if (entry === "max-commits") {
+              verifyTypeMatches(`${key}.${entry}`, value, 0);
+              this.maxPullRequestCommits = value;
+            } else {
+              core.warning(
+                `Warning: "${key}.${entry}" is unknown and has no effect.`
+              );
+            }
+          }
+          break;
+
         case "max-subject-length":
           /* Example YAML:
            *   max-subject-length: 80
@@ -176,12 +974,94 @@ export class Configuration {
           }
           break;
 
+        case "scope-separator":
+          /* Example YAML:
+           *   scope-separator: "/"
+           */
+          if (typeof data[key] === "string") {
+            this.scopeSeparator = data[key];
+          } else {
+            throw new Error(
+              `Incorrect type '${typeof data[
+                key
+              ]}' for '${key}', must be '${typeof this.scopeSeparator}'!`
+            );
+          }
+          break;
+
+        case "scopes":
+          /* Example YAML:
+           *   scopes:
+           *     allowed:
+           *       api: Public API of the library
+           *       cli: Command-line interface
+           *     required-for:
+           *       - fix
+           *     derive-from: workspaces
+           *
+           *   scopes: [api, cli]  # equivalent to only specifying `allowed`
+           */
+          verifyTypeMatches(key, data[key], {});
+          if (Array.isArray(data[key])) {
+            data[key] = { allowed: data[key] };
+          }
+          for (const entry of Object.keys(data[key])) {
+            const value = data[key][entry];
+            if (entry === "allowed") {
+              if (Array.isArray(value)) {
+                for (const scope of value) {
+                  verifyTypeMatches(`${key}.${entry}`, scope, "");
+                  this.scopes[scope] = "";
+                }
+              } else {
+                verifyTypeMatches(`${key}.${entry}`, value, {});
+                for (const scope of Object.keys(value)) {
+                  this.scopes[scope] = value[scope] ?? "";
+                  verifyTypeMatches(
+                    `${key}.${entry}.${scope}`,
+                    this.scopes[scope],
+                    ""
+                  );
+                }
+              }
+            } else if (entry === "required-for") {
+              if (
+                !Array.isArray(value) ||
+                !value.every(type => typeof type === "string")
+              ) {
+                throw new Error(
+                  `Incorrect type '${typeof value}' for '${key}.${entry}', must be a list of strings!`
+                );
+              }
+              this.scopeRequiredTypes = value;
+            } else if (entry === "derive-from") {
+              if (!SCOPE_SOURCES.includes(value)) {
+                throw new Error(
+                  `Incorrect value '${value}' for '${key}.${entry}', must be one of: '${SCOPE_SOURCES.join(
+                    "', '"
+                  )}'`
+                );
+              }
+              for (const scope of deriveScopes(baseDir, value)) {
+                this.scopes[scope] ??= "";
+              }
+            } else {
+              core.warning(
+                `Warning: "${key}.${entry}" is unknown and has no effect.`
+              );
+            }
+          }
+          break;
+
         case "tags":
           /* Example YAML:
            *   tags:
            *     perf:
            *       description: Non-functional performance improvement
-           *       bump: true
+           *       bump: minor
+           *     deps:
+           *       description: Dependency updates
+           *       bump: true  # equivalent to `patch`
            *     improvement: General non-functional improvements
            *     revert:
            *       bump: true
@@ -208,11 +1088,24 @@ export class Configuration {
                         );
                         tagObject.description = typeValue[entry];
                       } else if (entry === "bump") {
-                        verifyTypeMatches(
-                          `${typ}.${entry}`,
-                          typeValue[entry],
-                          true
-                        );
+                        if (
+                          typeof typeValue[entry] === "string" &&
+                          !BUMP_LEVELS.includes(typeValue[entry])
+                        ) {
+                          throw new Error(
+                            `Incorrect value '${
+                              typeValue[entry]
+                            }' for '${typ}.${entry}', must be a boolean or one of: '${BUMP_LEVELS.join(
+                              "', '"
+                            )}'`
+                          );
+                        } else if (typeof typeValue[entry] !== "string") {
+                          verifyTypeMatches(
+                            `${typ}.${entry}`,
+                            typeValue[entry],
+                            true
+                          );
+                        }
                         tagObject.bump = typeValue[entry];
                       }
                     } else {
@@ -291,7 +1184,7 @@ export class Configuration {
                 `Incorrect value '${
                   data[key]
                 }' for '${key}', must be one of: '${VERSION_SCHEMES.join(
-                  '", "'
+                  "', '"
                 )}'`
               );
             }
@@ -415,18 +1308,27 @@ export class Configuration {
   }
 
   /**
-   * Constructs a Configuration parameters from file
+   * Constructs a Configuration parameters from file, or the default
+   * Configuration if `configPath` is `null`; the `plugins` listed in the file
+   * are only loaded if `allowPlugins` is set, as they execute code.
    */
-  constructor(configPath: string = DEFAULT_CONFIGURATION_FILE) {
-    for (const rule of ALL_RULES) {
+  constructor(
+    configPath: string | null = DEFAULT_CONFIGURATION_FILE,
+    allowPlugins = false
+  ) {
+    this.allowPlugins = allowPlugins;
+    for (const rule of [...ALL_RULES, ...ALL_PULL_REQUEST_RULES]) {
       this.rules.set(rule.id, {
         description: rule.description,
         enabled: rule.default,
       });
     }
+    if (configPath === null) {
+      return;
+    }
     if (fs.existsSync(configPath)) {
       const data = yaml.parse(fs.readFileSync(configPath, "utf8"));
-      this.loadFromData(data);
+      this.loadFromData(data, path.dirname(configPath));
     } else {
       if (configPath !== DEFAULT_CONFIGURATION_FILE) {
         throw new Error(`No configuration can be found at: ${configPath}`);
@@ -438,11 +1340,42 @@ export class Configuration {
    * Creates a (deep) copy of the Configuration instance
    */
   copy(): Configuration {
-    const config = new Configuration();
+    // Do not read the configuration file again, as it may differ from (or
+    // load other plugins than) the one this instance was constructed from
+    const config = new Configuration(null, this.allowPlugins);
+    config.initialDevelopment = this.initialDevelopment;
     config.allowedBranches = this.allowedBranches;
+    config.expandSquashCommits = this.expandSquashCommits;
+    config.fixupCommits = this.fixupCommits;
+    config.cleanupMode = this.cleanupMode;
+    config.commentChar = this.commentChar;
+    config.customRules = [...this.customRules];
+    config.pluginRules = [...this.pluginRules];
+    config.emojiInChangelog = this.emojiInChangelog;
+    config.emojiTypes = { ...this.emojiTypes };
+    config.typePaths = { ...this.typePaths };
     config.maxSubjectLength = this.maxSubjectLength;
+    config.maxBodyLineLength = this.maxBodyLineLength;
+    config.minBodyLength = this.minBodyLength;
+    config.maxPullRequestCommits = this.maxPullRequestCommits;
+    config.bodyRequiredTypes = [...this.bodyRequiredTypes];
+    config.bodyRequiredForBreakingChanges = this.bodyRequiredForBreakingChanges;
+    config.reviewRemarkPhrases = [...this.reviewRemarkPhrases];
+    config.workInProgressPhrases = [...this.workInProgressPhrases];
+    config.imperativeMoodExceptions = [...this.imperativeMoodExceptions];
+    config.dcoAllowedBots = [...this.dcoAllowedBots];
+    config.forbiddenSuppressions = [...this.forbiddenSuppressions];
+    config.issueProjectKeys = [...this.issueProjectKeys];
+    config.issueGitHubReferences = this.issueGitHubReferences;
+    config.issueCrossRepositoryReferences = this.issueCrossRepositoryReferences;
+    config.issuePatterns = [...this.issuePatterns];
+    config.issueIgnoredWords = [...this.issueIgnoredWords];
+    config.scopeSeparator = this.scopeSeparator;
+    config.scopes = { ...this.scopes };
+    config.scopeRequiredTypes = [...this.scopeRequiredTypes];
     config.releaseBranches = this.releaseBranches;
     config.releaseDiscussionCategory = this.releaseDiscussionCategory;
+    config.versionPrefix = this.versionPrefix;
     config.versionScheme = this.versionScheme;
     config.prereleasePrefix = this.prereleasePrefix;
     config.tags = JSON.parse(JSON.stringify(this.tags));
@@ -14,15 +14,21 @@
  * limitations under the License.
  */
 
-import { LlvmError } from "./logging";
+import { LlvmError, LlvmWarning } from "./logging";
 
 export class ConventionalCommitError extends Error {
   errors: LlvmError[];
+  warnings: LlvmWarning[];
 
-  constructor(message: string, errors: LlvmError[]) {
+  constructor(
+    message: string,
+    errors: LlvmError[],
+    warnings: LlvmWarning[] = []
+  ) {
     super(message);
     this.name = "ConventionalCommitError";
     this.errors = errors;
+    this.warnings = warnings;
   }
 }
 
@@ -41,9 +47,12 @@ export class FixupCommitError extends Error {
 }
 
 export class RevertCommitError extends Error {
-  constructor() {
+  reverts?: string;
+
+  constructor(reverts?: string) {
     super("Commit message describes a 'revert' commit!");
     this.name = "RevertCommitError";
+    this.reverts = reverts;
   }
 }
 
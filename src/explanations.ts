@@ -0,0 +1,413 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Configuration } from "./config";
+import { LlvmMessage } from "./logging";
+import { CustomRule, getRuleId, IRuleExplanation } from "./rules";
+
+const RULE_DOCUMENTATION_URL =
+  "https://github.com/tomtom-international/commisery-action/blob/master/docs/rules.md";
+
+/**
+ * Explanation of each of the built-in rules, keyed by rule ID.
+ *
+ * NOTE: `docs/rules.md` lists the same explanations; keep both in sync.
+ */
+export const RULE_EXPLANATIONS: { [ruleId: string]: IRuleExplanation } = {
+  C001: {
+    rationale:
+      "Type tags are matched case-sensitively, both when validating the type and when determining " +
+      "the version bump and changelog section. Lower case type tags keep the history consistent.",
+    compliant: ["feat: add search"],
+    nonCompliant: ["Feat: add search", "FEAT: add search"],
+    config: ["tags"],
+  },
+  C002: {
+    rationale:
+      "A single empty line separates the subject from the body. Additional empty lines do not " +
+      "add any information, and are rendered inconsistently by git tooling.",
+    compliant: ["fix: handle timeouts\n\nRetry the request once."],
+    nonCompliant: ["fix: handle timeouts\n\n\nRetry the request once."],
+  },
+  C003: {
+    rationale:
+      "The description continues the sentence started by the type tag (i.e. `fix: ...`), so it " +
+      "starts with a lower case letter. The changelog capitalizes the first letter of each entry.",
+    compliant: ["docs: describe the configuration file"],
+    nonCompliant: ["docs: Describe the configuration file"],
+  },
+  C004: {
+    rationale:
+      "The type tag determines the version bump and the changelog section of a change. Unknown " +
+      "type tags are likely typos, and would be listed under the generic section of the changelog.",
+    compliant: ["refactor: extract the parser"],
+    nonCompliant: ["refactr: extract the parser", "feature: add search"],
+    config: ["tags"],
+  },
+  C005: {
+    rationale:
+      "The Conventional Commits specification requires the type tag (and optional scope) to be " +
+      "followed by a colon and a single space. Deviating whitespace makes the subject harder to parse.",
+    compliant: ["feat(api): add endpoint"],
+    nonCompliant: ["feat(api):add endpoint", "feat(api):  add endpoint"],
+  },
+  C006: {
+    rationale:
+      "The parentheses following the type tag denote the scope of the change. An empty scope " +
+      "does not add any information; omit the parentheses instead.",
+    compliant: ["fix: handle timeouts", "fix(http): handle timeouts"],
+    nonCompliant: ["fix(): handle timeouts", "fix(http,): handle timeouts"],
+    config: ["scope-separator"],
+  },
+  C007: {
+    rationale:
+      "Scopes are used as identifiers, i.e. when grouping the changelog by scope. Leading or " +
+      "trailing whitespace results in different scopes for the same component.",
+    compliant: ["fix(http): handle timeouts"],
+    nonCompliant: ["fix( http ): handle timeouts"],
+    config: ["scope-separator"],
+  },
+  C008: {
+    rationale:
+      'The ": " separator marks the end of the type tag, scope and breaking change indicator. ' +
+      "Without it, the start of the description cannot be determined.",
+    compliant: ["chore: update dependencies"],
+    nonCompliant: ["chore update dependencies"],
+  },
+  C009: {
+    rationale:
+      "The description summarizes the change; it is used as the entry in the changelog.",
+    compliant: ["perf: cache the parsed configuration"],
+    nonCompliant: ["perf: "],
+  },
+  C010: {
+    rationale:
+      'The "!" indicator is part of the prefix of the subject and should directly precede the ' +
+      '": " separator, as prescribed by the Conventional Commits specification.',
+    compliant: ["feat(api)!: remove the v1 endpoints"],
+    nonCompliant: ["feat(api)! : remove the v1 endpoints"],
+  },
+  C011: {
+    rationale:
+      "A change is either breaking or not; repeating the indicator does not make it any more " +
+      "breaking.",
+    compliant: ["feat!: drop support for Node 16"],
+    nonCompliant: ["feat!!: drop support for Node 16"],
+  },
+  C012: {
+    rationale:
+      "Every Conventional Commit starts with a type tag, which determines the version bump and " +
+      "the changelog section of the change.",
+    compliant: ["fix: handle timeouts"],
+    nonCompliant: [": handle timeouts"],
+  },
+  C013: {
+    rationale:
+      "The subject is a title rather than a sentence, and is used as-is in the changelog. " +
+      "Trailing punctuation only takes up space.",
+    compliant: ["docs: explain the bump levels"],
+    nonCompliant: [
+      "docs: explain the bump levels.",
+      "docs: explain the bump levels!",
+    ],
+  },
+  C014: {
+    rationale:
+      "Long subjects are truncated by most git tooling (i.e. `git log --oneline` or the GitHub " +
+      "UI). Keep the subject short and provide the details in the body.",
+    compliant: ["fix: handle timeouts"],
+    nonCompliant: [
+      "fix: handle the timeouts that occur when the server does not respond within the configured period",
+    ],
+    config: ["max-subject-length"],
+  },
+  C015: {
+    rationale:
+      "The type tag already states the kind of change; repeating it in the description does not " +
+      "add any information, and reads awkwardly in the changelog (i.e. `Fix crash` under Bug Fixes).",
+    compliant: ["fix: prevent crash on empty input"],
+    nonCompliant: ["fix: fix crash on empty input", "docs: docs for the CLI"],
+  },
+  C016: {
+    rationale:
+      'The description should complete the sentence "If applied, this commit will ...". This ' +
+      "convention is used by git itself (i.e. `Merge branch ...` or `Revert ...`).",
+    compliant: ["feat: add search", "fix: prevent crash on empty input"],
+    nonCompliant: [
+      "feat: added search",
+      "feat: adds search",
+      "fix: preventing crash on empty input",
+    ],
+    config: ["imperative-mood-exceptions"],
+  },
+  C017: {
+    rationale:
+      "Review remarks are only meaningful within the context of the pull request. The subject " +
+      "should describe the change itself, as the review is not part of the history.",
+    compliant: ["fix: validate the input before parsing"],
+    nonCompliant: [
+      "fix: address review comments",
+      "chore: process PR feedback",
+    ],
+    config: ["review-remark-phrases"],
+  },
+  C018: {
+    rationale:
+      "git (and many other tools) treat the first paragraph of the commit message as its subject. " +
+      "Without an empty line, the body becomes part of the subject.",
+    compliant: ["fix: handle timeouts\n\nRetry the request once."],
+    nonCompliant: ["fix: handle timeouts\nRetry the request once."],
+  },
+  C019: {
+    rationale:
+      "Issue references take up space in the subject and are not meaningful to the reader of the " +
+      "changelog. Reference the issue in a git-trailer instead; these are listed in the changelog " +
+      "as well.",
+    compliant: ["fix: handle timeouts\n\nImplements: TEST-123"],
+    nonCompliant: [
+      "fix: handle timeouts (TEST-123)",
+      "fix(TEST-123): handle timeouts",
+    ],
+    config: ["issue-references"],
+  },
+  C020: {
+    rationale:
+      "git only recognizes git-trailers of which the token does not contain whitespace (with the " +
+      "exception of `BREAKING CHANGE`), i.e. when using `git interpret-trailers`.",
+    compliant: ["fix: handle timeouts\n\nReviewed-by: Jane Doe"],
+    nonCompliant: ["fix: handle timeouts\n\nReviewed by: Jane Doe"],
+  },
+  C023: {
+    rationale:
+      "The BREAKING CHANGE git-trailer describes the impact of the change on its users; listing " +
+      "it first makes sure it is not overlooked.",
+    compliant: [
+      "feat: drop support for Node 16\n\nBREAKING CHANGE: Node 18 is required\nImplements: TEST-123",
+    ],
+    nonCompliant: [
+      "feat: drop support for Node 16\n\nImplements: TEST-123\nBREAKING CHANGE: Node 18 is required",
+    ],
+  },
+  C024: {
+    rationale:
+      "Without a colon, a git-trailer is not recognized as such and is treated as part of the " +
+      "body instead; its issue reference would, for instance, not be listed in the changelog.",
+    compliant: ["fix: handle timeouts\n\nImplements: TEST-123"],
+    nonCompliant: ["fix: handle timeouts\n\nImplements TEST-123"],
+    config: ["issue-references"],
+  },
+  C026: {
+    rationale:
+      "Some projects require each change to be traceable to an issue. This rule is disabled by " +
+      "default.",
+    compliant: ["fix: handle timeouts\n\nImplements: TEST-123"],
+    nonCompliant: ["fix: handle timeouts"],
+    config: ["enable", "issue-references"],
+  },
+  C027: {
+    rationale:
+      "When emoji prefixes are used, they should tell the same story as the type tag; an emoji " +
+      "that contradicts the type tag confuses the reader.",
+    compliant: [":bug: fix: handle timeouts"],
+    nonCompliant: [":sparkles: fix: handle timeouts"],
+    config: ["emoji-types"],
+  },
+  C028: {
+    rationale:
+      "A fixed set of scopes keeps the changelog grouped consistently and avoids different names " +
+      "for the same component.",
+    compliant: ["fix(api): handle timeouts"],
+    nonCompliant: ["fix(apis): handle timeouts"],
+    config: ["scopes", "scope-separator"],
+  },
+  C029: {
+    rationale:
+      "For some types of changes, the affected component is essential information, i.e. to " +
+      "determine which part of the product a fix applies to.",
+    compliant: ["fix(api): handle timeouts"],
+    nonCompliant: ["fix: handle timeouts"],
+    config: ["scopes"],
+  },
+  C030: {
+    rationale:
+      "git does not wrap the body of the commit message; long lines are hard to read in a " +
+      "terminal and in most git tooling.",
+    compliant: [
+      "fix: handle timeouts\n\nRetry the request once, as the server\nmay be restarting.",
+    ],
+    nonCompliant: [
+      "fix: handle timeouts\n\nRetry the request once, as the server may be restarting after a deployment.",
+    ],
+    config: ["body"],
+  },
+  C031: {
+    rationale:
+      "Some types of changes (and breaking changes in particular) need more context than fits " +
+      "in the subject, i.e. the motivation or the migration path.",
+    compliant: [
+      "feat!: drop support for Node 16\n\nNode 16 has reached its end of life.",
+    ],
+    nonCompliant: ["feat!: drop support for Node 16"],
+    config: ["body"],
+  },
+  C032: {
+    rationale:
+      "A body consisting of only a few characters rarely explains the motivation of a change.",
+    compliant: [
+      "fix: handle timeouts\n\nRetry the request once, as the server may be restarting.",
+    ],
+    nonCompliant: ["fix: handle timeouts\n\nRetry."],
+    config: ["body"],
+  },
+  C033: {
+    rationale:
+      "Trailing whitespace is invisible and tabs are rendered with varying widths, which results " +
+      "in noisy diffs and misaligned text. This rule is disabled by default.",
+    compliant: ["fix: handle timeouts\n\nRetry the request once."],
+    nonCompliant: ["fix: handle timeouts\n\n\tRetry the request once."],
+    config: ["enable", "cleanup-mode"],
+  },
+  C034: {
+    rationale:
+      "Projects using the Developer Certificate of Origin (DCO) require authors to certify their " +
+      "contribution by signing off each commit, i.e. using `git commit --signoff`. This rule is " +
+      "disabled by default.",
+    compliant: [
+      "fix: handle timeouts\n\nSigned-off-by: Jane Doe <jane.doe@example.com>",
+    ],
+    nonCompliant: ["fix: handle timeouts"],
+    config: ["enable", "dco-allowed-bots"],
+  },
+  C035: {
+    rationale:
+      "Work in progress and temporary commits are meant to be squashed or reworded before the " +
+      "pull request is merged. The subject is validated for common markers, such as `WIP` or " +
+      "`do not merge`, and for descriptions that only consist of i.e. `tmp`.",
+    compliant: ["feat: add search"],
+    nonCompliant: [
+      "chore: wip",
+      "fix: tmp",
+      "feat: DO NOT MERGE",
+      "WIP: add search",
+    ],
+    config: ["work-in-progress-phrases"],
+  },
+  C036: {
+    rationale:
+      "Large pull requests are hard to review and to revert. This rule validates the commits " +
+      "of a pull request as a whole and only applies when `pull-request.max-commits` is " +
+      "configured; the examples assume a limit of two commits.",
+    compliant: ["feat: add search\ntest: cover search"],
+    nonCompliant: [
+      "feat: add search\ntest: cover search\ndocs: describe search",
+    ],
+    config: ["pull-request"],
+  },
+  C037: {
+    rationale:
+      "Commits with the same subject result in duplicate, indistinguishable changelog entries. " +
+      "This rule validates the commits of a pull request as a whole and compares the subjects " +
+      "case-insensitively.",
+    compliant: ["fix: handle timeouts\nfix: handle retries"],
+    nonCompliant: ["fix: handle timeouts\nfix: handle Timeouts"],
+  },
+  C038: {
+    rationale:
+      "A breaking change to a scope is released as a new major version; additional " +
+      "non-breaking changes to the same scope usually indicate that the pull request " +
+      "should be split. This rule validates the commits of a pull request as a whole; " +
+      "changes that do not bump the version are not considered.",
+    compliant: [
+      "feat(api)!: remove search\ntest(api): cover removal",
+      "feat(api)!: remove search\nfix(ui): handle timeouts",
+    ],
+    nonCompliant: ["feat(api)!: remove search\nfix(api): handle timeouts"],
+  },
+  C039: {
+    rationale:
+      "Every feature is listed separately in the changelog and should be reviewed (and, " +
+      "if necessary, reverted) on its own. This rule validates the commits of a pull " +
+      "request as a whole.",
+    compliant: ["feat: add search\nfix: handle timeouts"],
+    nonCompliant: ["feat: add search\nfeat: add filters"],
+  },
+  C040: {
+    rationale:
+      "The type tag determines the version bump and the changelog section of a change, so a " +
+      "`docs` commit that changes the source code, or a `test` commit that changes production " +
+      "code, is mislabelled. The files changed by the commit are validated against the " +
+      "`type-paths` configured for its type; the examples assume a change to `src/main.ts` and " +
+      "`docs` commits being restricted to `docs/**` and `*.md`.",
+    compliant: ["fix: handle timeouts"],
+    nonCompliant: ["docs: describe the configuration"],
+    config: ["type-paths"],
+  },
+};
+
+/**
+ * Returns the explanation of the provided rule, including custom rules and
+ * plugin rules (if these provide an explanation).
+ */
+export function getRuleExplanation(
+  ruleId: string,
+  config: Configuration
+): IRuleExplanation | undefined {
+  if (ruleId in RULE_EXPLANATIONS) {
+    return RULE_EXPLANATIONS[ruleId];
+  }
+
+  const customRule = config.customRules.find(rule => rule.id === ruleId);
+  if (customRule !== undefined) {
+    return explainCustomRule(customRule);
+  }
+
+  return config.pluginRules.find(rule => rule.id === ruleId)?.explanation;
+}
+
+/**
+ * Describes the patterns of a custom rule
+ */
+function explainCustomRule(rule: CustomRule): IRuleExplanation {
+  const patterns: string[] = [];
+  if (rule.mustMatch) {
+    patterns.push(`must match \`${rule.mustMatch.source}\``);
+  }
+  if (rule.mustNotMatch) {
+    patterns.push(`must not match \`${rule.mustNotMatch.source}\``);
+  }
+  return {
+    rationale: `Custom rule; the ${rule.target} of the commit message ${patterns.join(
+      " and "
+    )}.`,
+    compliant: [],
+    nonCompliant: [],
+    config: ["custom-rules"],
+  };
+}
+
+/**
+ * Returns the link to the documentation of the rule that reported
+ * `diagnostic`, if it is a built-in rule.
+ */
+export function getRuleExplanationUrl(
+  diagnostic: LlvmMessage
+): string | undefined {
+  const ruleId = getRuleId(diagnostic);
+  if (ruleId === undefined || !(ruleId in RULE_EXPLANATIONS)) {
+    return undefined;
+  }
+  return `${RULE_DOCUMENTATION_URL}#${ruleId.toLowerCase()}`;
+}
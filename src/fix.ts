@@ -0,0 +1,168 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as os from "os";
+
+import { getConventionalCommitMetadata } from "./commit";
+import { Configuration } from "./config";
+import { IIdentity } from "./interfaces";
+import { LlvmError } from "./logging";
+import { getRuleId, validateRules } from "./rules";
+
+/* Upper bound on the number of fixes applied to a single message */
+const MAX_FIXES = 100;
+
+/**
+ * Result of fixing a commit message
+ */
+export interface IFixResult {
+  /* The (potentially) corrected commit message */
+  message: string;
+  /* The errors that have been fixed, in order of application */
+  fixed: LlvmError[];
+  /* The errors that remain after applying all fixes */
+  errors: LlvmError[];
+}
+
+type Fix = (line: string, error: LlvmError, expectations: string) => string;
+
+/**
+ * Replaces `range` characters, starting at the (1-based) column `start`
+ */
+function replace(
+  line: string,
+  start: number,
+  range: number,
+  replacement: string
+): string {
+  return (
+    line.substring(0, start - 1) +
+    replacement +
+    line.substring(start - 1 + range)
+  );
+}
+
+const replaceRange: Fix = (line, error, expectations) =>
+  replace(
+    line,
+    error.columnNumber.start,
+    error.columnNumber.range ?? 0,
+    expectations
+  );
+
+/**
+ * Fixes for the rules whose `expectations` can be applied without changing the
+ * meaning of the commit message.
+ */
+const FIXES: { [ruleId: string]: Fix } = {
+  // Lower case type
+  C001: replaceRange,
+  // Lower case first character of the description
+  C003: (line, error, expectations) =>
+    replace(line, error.columnNumber.start, 1, expectations),
+  // Closest known type
+  C004: replaceRange,
+  // ": " separator
+  C005: replaceRange,
+  // Trimmed scope
+  C007: replaceRange,
+  // "!:" breaking change indicator
+  C010: replaceRange,
+  C011: replaceRange,
+  // Hyphenated git-trailer token
+  C020: replaceRange,
+  // Colon in git-trailer
+  C024: replaceRange,
+};
+
+/**
+ * Validates `lines` against the configured rules
+ */
+function validate(
+  lines: string[],
+  config: Configuration,
+  author?: IIdentity
+): LlvmError[] {
+  try {
+    return validateRules(
+      getConventionalCommitMetadata(lines, author),
+      config
+    ).filter(error => error instanceof LlvmError);
+  } catch (error: unknown) {
+    // The message can no longer be parsed; report it rather than considering
+    // the message to be fixed
+    return [
+      new LlvmError({
+        message: `Commit message can no longer be parsed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        line: lines[0],
+      }),
+    ];
+  }
+}
+
+/**
+ * Applies the first machine-safe fix in `errors` to `lines`; returns the fixed
+ * error, or `undefined` if none of the errors can be fixed.
+ */
+function applyFix(lines: string[], errors: LlvmError[]): LlvmError | undefined {
+  for (const error of errors) {
+    const fix = FIXES[getRuleId(error) ?? ""];
+    const index = error.lineNumber.start - 1;
+    if (!fix || error.expectations === undefined || !(index in lines)) {
+      continue;
+    }
+
+    const fixed = fix(lines[index], error, error.expectations);
+    if (fixed !== lines[index]) {
+      lines[index] = fixed;
+      return error;
+    }
+  }
+}
+
+/**
+ * Applies the machine-safe fixes for the provided `errors` to `message`.
+ *
+ * Fixes are applied one at a time, re-validating the message after each of
+ * them, as a fix may affect the location of (or resolve) other errors.
+ */
+export function fixCommitMessage(
+  message: string,
+  errors: LlvmError[],
+  config: Configuration = new Configuration(),
+  author?: IIdentity
+): IFixResult {
+  const lines = message.split(os.EOL);
+  const fixed: LlvmError[] = [];
+
+  let remaining = errors;
+  while (fixed.length < MAX_FIXES) {
+    const error = applyFix(lines, remaining);
+    if (error === undefined) {
+      break;
+    }
+    fixed.push(error);
+    remaining = validate(lines, config, author);
+  }
+
+  return {
+    message: lines.join(os.EOL),
+    fixed,
+    errors: remaining,
+  };
+}
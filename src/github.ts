@@ -17,12 +17,14 @@
 import * as core from "@actions/core";
 import * as fs from "fs";
 import * as github from "@actions/github";
+import * as yaml from "yaml";
+import { posix } from "path";
 import * as octokit from "@octokit/plugin-rest-endpoint-methods";
 import { retry } from "@octokit/plugin-retry";
 import { throttling } from "@octokit/plugin-throttling";
 import { RequestError } from "@octokit/request-error";
 import { GitHub, getOctokitOptions } from "@actions/github/lib/utils";
-import { ICommit, IGitHubRelease, IGitTag } from "./interfaces";
+import { ICommit, IGitHubRelease, IGitTag, IIdentity } from "./interfaces";
 import { SemVer } from "./semver";
 import * as Label from "./label";
 import type { Octokit } from "@octokit/core";
@@ -89,6 +91,34 @@ function getOctokit(): InstanceType<typeof GitHub> {
   );
 }
 
+/**
+ * @param identity Git author or committer, as returned by the GitHub API
+ * @return The identity, or `undefined` if its name or email is unknown
+ */
+function githubIdentityAsIIdentity(
+  identity?: { name?: string; email?: string } | null
+): IIdentity | undefined {
+  if (identity?.name === undefined || identity.email === undefined) {
+    return undefined;
+  }
+  return { name: identity.name, email: identity.email };
+}
+
+/**
+ * @param commit Commit as returned by GitHub API `/repos/listCommits`
+ * @return ICommit object representing the input commit
+ */
+function githubCommitAsICommit(
+  commit: octokit.RestEndpointMethodTypes["repos"]["listCommits"]["response"]["data"][number]
+): ICommit {
+  return {
+    message: commit.commit.message,
+    sha: commit.sha,
+    author: githubIdentityAsIIdentity(commit.commit.author),
+    committer: githubIdentityAsIIdentity(commit.commit.committer),
+  };
+}
+
 /**
  * @param commits[] List of commits as returned by GitHub API `/repos/listCommits`
  * @return List of ICommit objects representing the input list
@@ -96,12 +126,7 @@ function getOctokit(): InstanceType<typeof GitHub> {
 function githubCommitsAsICommits(
   commits: octokit.RestEndpointMethodTypes["repos"]["listCommits"]["response"]["data"]
 ): ICommit[] {
-  return commits.map((c): ICommit => {
-    return {
-      message: c.commit.message,
-      sha: c.sha,
-    };
-  });
+  return commits.map(githubCommitAsICommit);
 }
 
 /**
@@ -156,6 +181,22 @@ export async function getCommitsInPR(
   return githubCommitsAsICommits(commits);
 }
 
+/**
+ * Retrieves the paths of the files changed by the specified commit
+ * @param sha SHA of the commit
+ * @returns List of paths, relative to the root of the repository
+ */
+export async function getChangedFiles(sha: string): Promise<string[]> {
+  const { data: commit } = await getOctokit().rest.repos.getCommit({
+    ...github.context.repo,
+    ref: sha,
+  });
+
+  return (commit.files ?? []).map(
+    (file: { filename: string }) => file.filename
+  );
+}
+
 /**
  * Retrieves the Pull Request associated with the specified Pull Request ID
  * @param pullRequestId GitHub Pullrequest ID
@@ -373,13 +414,63 @@ export async function createTag(
 }
 
 /**
- * Downloads the requested configuration file in case it exists.
+ * Downloads the requested configuration file in case it exists, along with
+ * the rule plugins it refers to (unless available in the workspace).
+ *
+ * Plugins are only downloaded if `allowPlugins` is set, as they execute code.
+ * In context of a pull request, they are downloaded from its base branch, as
+ * the pull request itself may originate from a fork.
  * @param path Path towards the Commisery configuration file
+ * @param allowPlugins Whether to download the rule plugins
  */
-export async function getConfig(path: string): Promise<void> {
+export async function getConfig(
+  path: string,
+  allowPlugins = false
+): Promise<void> {
   const config = await getContent(path);
-  if (config !== undefined) {
-    fs.writeFileSync(".commisery.yml", config);
+  if (config === undefined) {
+    return;
+  }
+  fs.writeFileSync(".commisery.yml", config);
+  if (!allowPlugins) {
+    return;
+  }
+
+  // Plugins are relative to the configuration file, which is stored in the
+  // current working directory
+  // A checked out pull request may contain modified plugins as well; these
+  // are overwritten by the plugins of its base branch
+  const pullRequest = isPullRequestEvent();
+  const ref = pullRequest
+    ? github.context.payload.pull_request?.base.sha
+    : github.context.ref;
+  const plugins: unknown = yaml.parse(config)?.plugins;
+  for (const plugin of Array.isArray(plugins) ? plugins : []) {
+    if (typeof plugin !== "string" || (!pullRequest && fs.existsSync(plugin))) {
+      continue;
+    }
+    const normalized = posix.normalize(plugin);
+    if (
+      normalized === ".." ||
+      normalized.startsWith("../") ||
+      posix.isAbsolute(plugin)
+    ) {
+      throw new Error(
+        `Plugin '${plugin}' is located outside of the workspace!`
+      );
+    }
+    const content = await getContent(
+      posix.join(posix.dirname(path), plugin),
+      ref
+    );
+    if (content !== undefined) {
+      fs.mkdirSync(posix.dirname(plugin), { recursive: true });
+      fs.writeFileSync(plugin, content);
+    } else if (pullRequest) {
+      throw new Error(
+        `Plugin '${plugin}' cannot be found on the base branch of the pull request!`
+      );
+    }
   }
 }
 
@@ -429,7 +520,7 @@ export async function matchTagsToCommits(
         );
         return [match, commitList];
       }
-      commitList.push({ message: commit.commit.message, sha: commit.sha });
+      commitList.push(githubCommitAsICommit(commit));
     }
   }
   return [match, commitList];
@@ -640,14 +731,18 @@ export async function updateLabels(labels: string[]): Promise<void> {
 }
 
 /**
- * Downloads and returns the contents of the specified file path.
+ * Downloads and returns the contents of the specified file path, at the
+ * provided `ref` (defaults to the ref that triggered the workflow).
  */
-export async function getContent(path: string): Promise<string | undefined> {
+export async function getContent(
+  path: string,
+  ref: string = github.context.ref
+): Promise<string | undefined> {
   try {
     const response = await getOctokit().rest.repos.getContent({
       ...github.context.repo,
       path,
-      ref: github.context.ref,
+      ref,
     });
 
     if ("content" in response.data) {
@@ -16,7 +16,7 @@
 
 import { ConventionalCommitMessage } from "./commit";
 import { SemVer, SemVerType } from "./semver";
-import { LlvmError } from "./logging"; // TODO: Move LlvmError to its own file
+import { LlvmError, LlvmWarning } from "./logging"; // TODO: Move LlvmError to its own file
 
 export interface IVersionBumpTypeAndMessages {
   /* The nearest SemVer tag found in the repository */
@@ -31,20 +31,53 @@ export interface IVersionBumpTypeAndMessages {
   initialDevelopment: boolean;
 }
 
+export type RuleSeverity = "error" | "warning" | "off";
+
 export interface IRuleConfigItem {
   description: string;
   enabled: boolean;
+  /* Violations of rules with severity "warning" do not affect compliance */
+  severity?: Exclude<RuleSeverity, "off">;
+}
+
+export type BumpLevel = "none" | "patch" | "minor" | "major";
+
+export type CustomRuleTarget =
+  | "subject"
+  | "type"
+  | "scope"
+  | "description"
+  | "body"
+  | "footer-token"
+  | "footer-value";
+
+export interface ICustomRuleConfigItem {
+  id: string;
+  /* The element of the commit message the patterns are applied to */
+  target: CustomRuleTarget;
+  /* At least one of the target's elements must match this pattern */
+  mustMatch?: string;
+  /* None of the target's elements may match this pattern */
+  mustNotMatch?: string;
+  message: string;
+  default: boolean;
 }
 
 export interface ITypeTagConfigItem {
   description?: string;
-  bump?: boolean;
+  /* A boolean value indicates whether the type bumps PATCH (legacy) */
+  bump?: boolean | BumpLevel;
 }
 
 export interface IConfigurationRules {
   [key: string]: ITypeTagConfigItem;
 }
 
+export interface IReleaseAs {
+  version: string;
+  sha: string;
+}
+
 export interface IBumpInfo {
   from: SemVer;
   to: SemVer;
@@ -67,6 +100,8 @@ export interface IVersionOutput {
     from: string;
     to: string;
     type: ReleaseType;
+    /* The version requested using a `Release-As` trailer, if any */
+    releaseAs?: IReleaseAs;
   };
 }
 
@@ -92,16 +127,27 @@ export interface IGitTag {
   sha: string;
 }
 
+export interface IIdentity {
+  name: string;
+  email: string;
+}
+
 export interface ICommit {
   message: string;
   sha: string;
+  author?: IIdentity;
+  committer?: IIdentity;
+  /* Paths of the files changed by the commit, if known */
+  files?: string[];
 }
 
 export interface IValidationResult {
   input: ICommit;
   message?: ConventionalCommitMessage;
   errors: LlvmError[];
+  warnings: LlvmWarning[];
 }
 
 export type ReleaseMode = "none" | "release" | "tag"; // keep values user-friendly
+export type CleanupMode = "strip" | "whitespace" | "verbatim" | "scissors"; // as per `git commit --cleanup`
 export type SdkVerBumpType = "dev" | "rc" | "rel";
@@ -0,0 +1,208 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Base form of the verbs commonly used in commit messages
+ */
+const VERBS = new Set(
+  `
+  abort accept access account accumulate activate adapt add address adjust
+  align allocate allow alter amend analyze annotate append apply approve
+  archive arrange assert assign attach attempt authenticate authorize
+  automate avoid backport balance ban base batch begin bind block boost
+  bootstrap break bring broaden build bump bundle bypass cache
+  calculate call cancel capture cast catch center change check choose
+  clarify classify clean cleanup clear clip clone close cluster collapse
+  collect combine comment commit compare compile complete compress compute
+  concatenate configure confirm connect consider consolidate constrain
+  construct consume contain continue convert copy correct count cover
+  crash create cut debug declare decode decouple decrease default defer
+  define delay delegate delete deliver deploy deprecate derive describe
+  deserialize design destroy detach detect determine disable disallow
+  discard disconnect discover discuss dismiss dispatch display dispose
+  distinguish distribute do document download drop dump duplicate edit
+  eliminate embed emit enable encapsulate encode encrypt end enforce
+  enhance ensure enter escape establish evaluate exclude execute exit
+  expand expect expire explain export expose express extend extract fail
+  fetch fill filter finalize find finish fix flag flatten flip flush fold
+  follow force fork format forward free freeze generalize generate get
+  give group guard handle hardcode hash hide highlight hook ignore
+  implement import improve include increase increment indent index
+  inherit initialize inject inline insert inspect install instantiate
+  integrate intercept introduce invalidate invert invoke isolate iterate
+  join keep kill label launch limit link lint list load localize lock log
+  loop lower maintain make manage map mark match merge migrate minimize
+  mirror mock modify monitor mount move mutate name narrow navigate
+  normalize notify obtain omit open optimize order organize output
+  override package pad parallelize parameterize parse pass patch pause
+  perform persist pick pin place play poll polish populate port post
+  predict prefer prefix prepare prepend prevent print prioritize process
+  produce profile prohibit promote prompt propagate protect provide prune
+  publish pull purge push put query queue raise read rebase rebuild
+  receive record recover redesign redirect reduce refactor reference
+  refine reformat refresh register reject release reload remove rename
+  render reorder reorganize repair replace report request require rerun
+  reset resize resolve restore restrict restructure retain retry return
+  reuse revert review revise rewrite rework roll rotate round run sanitize
+  save scale scan schedule scroll search secure select send separate
+  serialize serve set setup show shrink shuffle shutdown simplify skip
+  sort specify speed split squash stabilize stage standardize start stop
+  store stream streamline strip structure stub submit subscribe
+  substitute subtract suggest supply support suppress swap switch sync
+  synchronize tag target teardown tell terminate test throttle throw
+  tidy toggle track transform translate transmit trigger trim truncate
+  try tune tweak uncomment undo unify uninstall unlock unpin unregister
+  unset untangle update upgrade upload use validate verify wait warn
+  watch wrap write
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+/**
+ * Inflected forms that are commonly used as adjective or noun instead (i.e.
+ * "breaking change", "missing import" or "logging configuration")
+ */
+const NON_VERB_FORMS = new Set(
+  `
+  breaking broken building caching deprecated existing failing heading leading
+  logging missing nested padding pending remaining setting settings squashed
+  string strings testing trailing warning warnings
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+/**
+ * Plural nouns that are indistinguishable from the -s form of a verb (i.e.
+ * "tests for the parser" or "breaks the API")
+ */
+const PLURAL_NOUNS = new Set(
+  `
+  breaks changes comments tests
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+/**
+ * Words following a plural noun rather than a verb (i.e. "changes to the
+ * README" or "comments in the config")
+ */
+const PREPOSITIONS = new Set(
+  `
+  about after and at before between by during for from in into of on or per
+  to when with within without
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+/**
+ * Irregular (past tense or participle) forms of the verbs in the lexicon; the
+ * forms of "do" are left out, as these hardly describe a change by themselves
+ * (i.e. "did something" or "done")
+ */
+const IRREGULAR_FORMS: { [form: string]: string } = {
+  began: "begin",
+  begun: "begin",
+  broke: "break",
+  broken: "break",
+  brought: "bring",
+  built: "build",
+  caught: "catch",
+  chose: "choose",
+  chosen: "choose",
+  froze: "freeze",
+  frozen: "freeze",
+  gave: "give",
+  given: "give",
+  got: "get",
+  kept: "keep",
+  made: "make",
+  ran: "run",
+  rebuilt: "rebuild",
+  rewritten: "rewrite",
+  rewrote: "rewrite",
+  sent: "send",
+  shown: "show",
+  threw: "throw",
+  thrown: "throw",
+  told: "tell",
+  undid: "undo",
+  undone: "undo",
+  wrote: "write",
+  written: "write",
+};
+
+/**
+ * Returns the candidate base forms of `word`, assuming it is an inflected
+ * (-s, -ed or -ing) form of a verb; -s forms are only considered when
+ * `plural` is set.
+ */
+function getCandidates(word: string, plural: boolean): string[] {
+  const stem = (suffix: string): string | undefined =>
+    word.length > suffix.length + 1 && word.endsWith(suffix)
+      ? word.slice(0, -suffix.length)
+      : undefined;
+  // Undoes the doubling of the final consonant (i.e. "stopped" or "mapping")
+  const undouble = (base?: string): string | undefined =>
+    base && /([^aeiou])\1$/.test(base) ? base.slice(0, -1) : undefined;
+
+  const candidates = [
+    // -s: "adds", "updates", "fixes", "applies"
+    ...(plural
+      ? [stem("s"), stem("es"), stem("ies") && `${stem("ies")}y`]
+      : []),
+    // -ed: "added", "updated", "stopped", "applied"
+    stem("ed"),
+    stem("d"),
+    undouble(stem("ed")),
+    stem("ied") && `${stem("ied")}y`,
+    // -ing: "adding", "updating", "mapping"
+    stem("ing"),
+    stem("ing") && `${stem("ing")}e`,
+    undouble(stem("ing")),
+  ];
+  return candidates.filter((c): c is string => c !== undefined);
+}
+
+/**
+ * Returns the imperative (base) form of `word` when it is an inflected (-s,
+ * -ed or -ing, or irregular) form of one of the verbs in the lexicon, or
+ * `undefined` if it is not (or if `word` already is in imperative mood).
+ *
+ * As the -s form of a verb is indistinguishable from a plural noun, it is
+ * only reported when `word` is not a common plural noun and is followed by
+ * its object (`nextWord`), rather than by a preposition or nothing at all.
+ */
+export function getImperativeForm(
+  word: string,
+  nextWord?: string
+): string | undefined {
+  const lower = word.toLowerCase();
+  if (VERBS.has(lower) || NON_VERB_FORMS.has(lower)) {
+    return undefined;
+  }
+  if (lower in IRREGULAR_FORMS) {
+    return IRREGULAR_FORMS[lower];
+  }
+  const plural =
+    !PLURAL_NOUNS.has(lower) &&
+    nextWord !== undefined &&
+    !PREPOSITIONS.has(nextWord.toLowerCase());
+  return getCandidates(lower, plural).find(candidate => VERBS.has(candidate));
+}
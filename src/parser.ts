@@ -0,0 +1,247 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ILlvmRange } from "./logging";
+
+import * as os from "os";
+
+const CONVENTIONAL_COMMIT_REGEX =
+  /(?:(?<emoji>:[\w+-]+:|\p{Extended_Pictographic}[\p{Extended_Pictographic}\p{Emoji_Modifier}\u200D\uFE0F]*)\s*)?(?<type>\w+)?((\s*)?\((?<scope>[^()]*)\)(\s*)?)?(?<breakingChange>((\s*)+[!]+(\s*)?)?)(?<separator>((\s+)?:?(\s+)?))(?<description>.*)/du;
+const FOOTER_REGEX =
+  /^(?<token>[\w-]+|BREAKING\sCHANGE|[\w-\s]+\sby)(?::[ ]|[ ](?=#))(?<value>.*)/d;
+
+/**
+ * Location of an element within the commit message.
+ *
+ * Both line and column numbers are 1-based; the `range` of the `lineNumber`
+ * denotes the number of _additional_ lines the element spans, whereas the
+ * `range` of the `columnNumber` denotes the number of characters on the
+ * first line.
+ */
+export interface ISourceRange {
+  lineNumber: ILlvmRange;
+  columnNumber: ILlvmRange;
+}
+
+/**
+ * A single element of the commit message, along with its location
+ */
+export interface IToken {
+  value: string;
+  range: ISourceRange;
+}
+
+/**
+ * A git-trailer, consisting of a token and a (potentially folded) value
+ */
+export interface IFooterNode {
+  token: IToken;
+  value: IToken;
+}
+
+/**
+ * Syntax tree of a (non-strict) Conventional Commit message
+ */
+export interface IConventionalCommitAst {
+  subject: IToken;
+  /* Gitmoji prefix, either as emoji or as shortcode (i.e. `:sparkles:`) */
+  emoji?: IToken;
+  type?: IToken;
+  scope?: IToken;
+  breakingChange?: IToken;
+  separator?: IToken;
+  description?: IToken;
+  /* All lines following the subject, up to (but not including) the footer */
+  body: IToken[];
+  /* The non-empty paragraphs contained in the body */
+  paragraphs: IToken[];
+  footers: IFooterNode[];
+}
+
+/**
+ * Creates a token for `value`, located at the provided (1-based) line and
+ * column number.
+ */
+function createToken(
+  value: string,
+  line: number,
+  column: number,
+  additionalLines = 0
+): IToken {
+  const lines = value.split(os.EOL);
+  return {
+    value,
+    range: {
+      lineNumber: {
+        start: line,
+        range: additionalLines > 0 ? additionalLines : undefined,
+      },
+      columnNumber: { start: column, range: lines[0].length },
+    },
+  };
+}
+
+/**
+ * Tokenizes the subject of the commit message
+ */
+function parseSubject(
+  subject: string
+): Pick<
+  IConventionalCommitAst,
+  "emoji" | "type" | "scope" | "breakingChange" | "separator" | "description"
+> {
+  const match = CONVENTIONAL_COMMIT_REGEX.exec(subject);
+  const groups = match?.groups;
+  const indices = match?.indices?.groups;
+
+  if (!match || !groups || !indices) {
+    throw new Error(
+      `Commit is not compliant to Conventional Commits (non-strict)`
+    );
+  }
+
+  const tokenFor = (name: string): IToken | undefined => {
+    const index = indices[name];
+    if (groups[name] === undefined || index === undefined) {
+      return undefined;
+    }
+    return createToken(groups[name], 1, index[0] + 1);
+  };
+
+  return {
+    emoji: tokenFor("emoji"),
+    type: tokenFor("type"),
+    scope: tokenFor("scope"),
+    breakingChange: tokenFor("breakingChange"),
+    separator: tokenFor("separator"),
+    description: tokenFor("description"),
+  };
+}
+
+/**
+ * Parses a commit message (array) into its syntax tree, keeping track of
+ * the line and column numbers of each of its elements.
+ */
+export function parseCommitMessage(message: string[]): IConventionalCommitAst {
+  interface IPendingFooter {
+    token: IToken;
+    value: string;
+    line: number;
+    column: number;
+    lineCount: number;
+  }
+
+  let footers: IPendingFooter[] = [];
+  let endOfBody = 1;
+  let ignoreEmptyLines = false;
+
+  for (let index = 1; index < message.length; index++) {
+    const line = message[index];
+    const match = FOOTER_REGEX.exec(line);
+    const currentTrailer = footers[footers.length - 1];
+    if (match?.groups && match.indices?.groups) {
+      footers.push({
+        token: createToken(
+          match.groups.token,
+          index + 1,
+          match.indices.groups.token[0] + 1
+        ),
+        value: match.groups.value,
+        line: index + 1,
+        column: match.indices.groups.value[0] + 1,
+        lineCount: 1,
+      });
+      ignoreEmptyLines = false;
+    } else if (/^-{8,}$/.test(line)) {
+      // End current trailer when a `---------` line is detected (i.e. as inserted
+      // by GitHub for certain merge strategies).
+      ignoreEmptyLines = true;
+    } else if (ignoreEmptyLines && line.trim() === "") {
+      // Ignore empty lines after `---------` line
+      // until the next paragraph or footer element is detected.
+    } else if (currentTrailer && (/^\s+/.test(line) || line.trim() === "")) {
+      // Multiline trailers use folding (RFC822), the exception being for empty lines
+      currentTrailer.value += os.EOL + line;
+      currentTrailer.lineCount = index + 1 - currentTrailer.line + 1;
+    } else {
+      // Discard detected git trailers as non-compliant item has been found
+      endOfBody = index;
+      footers = [];
+      ignoreEmptyLines = false;
+    }
+  }
+
+  const body: IToken[] = message
+    .slice(1, endOfBody + 1)
+    .map((line, index) => createToken(line, index + 2, 1));
+
+  const isFooterLine = (line: number): boolean =>
+    footers.some(f => line >= f.line && line < f.line + f.lineCount);
+
+  const paragraphs: IToken[] = [];
+  let paragraph: IToken[] = [];
+  const endParagraph = (): void => {
+    if (paragraph.length > 0) {
+      paragraphs.push(
+        createToken(
+          paragraph.map(p => p.value).join(os.EOL),
+          paragraph[0].range.lineNumber.start,
+          1,
+          paragraph.length - 1
+        )
+      );
+      paragraph = [];
+    }
+  };
+
+  for (const line of body) {
+    if (line.value.trim() === "" || isFooterLine(line.range.lineNumber.start)) {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+
+  return {
+    subject: createToken(message[0], 1, 1),
+    ...parseSubject(message[0]),
+    body,
+    paragraphs,
+    footers: footers.map(f => ({
+      token: f.token,
+      value: createToken(f.value, f.line, f.column, f.lineCount - 1),
+    })),
+  };
+}
+
+/**
+ * Splits the scope into its individual (untrimmed) scopes, using the
+ * provided separator. Each resulting token keeps track of its own location.
+ */
+export function splitScope(scope: IToken, separator: string): IToken[] {
+  if (separator === "") {
+    return [scope];
+  }
+
+  const scopes: IToken[] = [];
+  let column = scope.range.columnNumber.start;
+  for (const value of scope.value.split(separator)) {
+    scopes.push(createToken(value, scope.range.lineNumber.start, column));
+    column += value.length + separator.length;
+  }
+  return scopes;
+}
@@ -15,59 +15,242 @@
  */
 
 import * as difflib from "difflib";
+import * as os from "os";
 
 import { ConventionalCommitMetadata } from "./commit";
 import { Configuration } from "./config";
-import { LlvmError } from "./logging";
+import {
+  CustomRuleTarget,
+  ICustomRuleConfigItem,
+  IIdentity,
+  IValidationResult,
+} from "./interfaces";
+import { getImperativeForm } from "./lexicon";
+import {
+  ILlvmMessage,
+  ILlvmRange,
+  LlvmError,
+  LlvmMessage,
+  LlvmWarning,
+} from "./logging";
+import { IToken, splitScope } from "./parser";
+import { SemVerType } from "./semver";
+
+/**
+ * Elaborate explanation of a rule, i.e. as shown by `commisery explain`
+ */
+export interface IRuleExplanation {
+  /* Why the rule exists */
+  rationale: string;
+  /* Commit messages that comply with the rule (for pull request rules, the
+   * subjects of the commits of a pull request; one commit per line) */
+  compliant: string[];
+  /* Commit messages that violate the rule */
+  nonCompliant: string[];
+  /* Configuration items affecting the rule */
+  config?: string[];
+}
+
+/**
+ * Rule validating the commits of a pull request (or of a range of commits) as
+ * a whole, rather than each of the commit messages individually
+ */
+export interface IPullRequestRule {
+  description: string;
+  id: string;
+  default: boolean;
+
+  validate: (
+    commits: IValidationResult[],
+    config: Configuration
+  ) => LlvmError[];
+}
 
 export interface IConventionalCommitRule {
   description: string;
   id: string;
   default: boolean;
+  /* Built-in rules are explained in `src/explanations.ts` instead */
+  explanation?: IRuleExplanation;
 
+  /* Returns a diagnostic for every violation of the rule */
   validate: (
     message: ConventionalCommitMetadata,
     config: Configuration
-  ) => void;
+  ) => LlvmError[];
 }
 
+const RULE_ID_REGEX = /^\[(?<id>[^\]]+)\]/;
+/* Token of the git-trailer suppressing rules for a single commit message */
+const SUPPRESSION_TOKEN = "Commisery-Disable";
+
 /**
- * Validates the commit message against the specified ruleset
+ * Returns the ID of the rule that reported `diagnostic`
  */
-export function validateRules(
+export function getRuleId(diagnostic: ILlvmMessage): string | undefined {
+  return RULE_ID_REGEX.exec(diagnostic.message ?? "")?.groups?.id;
+}
+
+/**
+ * Converts an error reported by a plugin rule into an `LlvmError`. Plugins
+ * cannot construct an `LlvmError` themselves (i.e. when using a bundled
+ * release), but may provide its properties as part of the `Error`.
+ */
+function fromPluginError(
+  rule: IConventionalCommitRule,
+  error: Error & ILlvmMessage,
+  message: ConventionalCommitMetadata
+): LlvmError {
+  return new LlvmError({
+    message: error.message.startsWith(`[${rule.id}]`)
+      ? error.message
+      : `[${rule.id}] ${error.message}`,
+    line: error.line ?? message.subject,
+    lineNumber: error.lineNumber,
+    columnNumber: error.columnNumber,
+    expectations: error.expectations,
+  });
+}
+
+/**
+ * Validates the commit message against a plugin rule; plugins either return
+ * a list of `Error`s, or throw one (as supported by earlier releases).
+ */
+function validatePluginRule(
+  rule: IConventionalCommitRule,
   message: ConventionalCommitMetadata,
   config: Configuration
 ): LlvmError[] {
-  const errors: LlvmError[] = [];
+  let result: unknown;
+  try {
+    result = rule.validate(message, config) ?? [];
+  } catch (error: unknown) {
+    if (!(error instanceof Error)) {
+      throw error;
+    }
+    result = [error];
+  }
+
+  // Invalid results are reported as a violation of the rule, rather than
+  // failing the validation of the message altogether
+  const errors =
+    Array.isArray(result) && result.every(error => error instanceof Error)
+      ? (result as (Error & ILlvmMessage)[])
+      : [
+          new Error(
+            "Plugin rule returned an invalid result, must be a list of errors"
+          ),
+        ];
+
+  return errors.map(error =>
+    error instanceof LlvmError ? error : fromPluginError(rule, error, message)
+  );
+}
+
+/**
+ * Determines the rules suppressed for this commit message only, using the
+ * `Commisery-Disable` git-trailer (i.e. `Commisery-Disable: C014, C019`).
+ *
+ * Each suppression is reported as a warning, allowing reviewers to audit
+ * them; suppressions of unknown rules, of pull request rules, or of rules for
+ * which suppression is forbidden by the configuration, have no effect.
+ */
+function getSuppressedRules(
+  message: ConventionalCommitMetadata,
+  config: Configuration
+): { ruleIds: string[]; diagnostics: LlvmWarning[] } {
+  const ruleIds: string[] = [];
+  const diagnostics: LlvmWarning[] = [];
+
+  for (const footer of message.footers) {
+    if (footer.token.toLowerCase() !== SUPPRESSION_TOKEN.toLowerCase()) {
+      continue;
+    }
+
+    for (const [index, line] of footer.value.split(os.EOL).entries()) {
+      const prefix = index === 0 ? `${footer.token}: ` : "";
+      for (const match of line.matchAll(/[^\s,]+/g)) {
+        const ruleId = config.rules.has(match[0])
+          ? match[0]
+          : match[0].toUpperCase();
+        const rule = config.rules.get(ruleId);
+
+        let description: string;
+        if (rule === undefined) {
+          description = "Unknown rule; suppression has no effect";
+        } else if (ALL_PULL_REQUEST_RULES.some(r => r.id === ruleId)) {
+          description =
+            "Pull request rules cannot be suppressed for a single commit message";
+        } else if (config.forbiddenSuppressions.includes(ruleId)) {
+          description = "Suppression of this rule is not allowed";
+        } else {
+          description = `Rule is suppressed for this commit message (${rule.description})`;
+          ruleIds.push(ruleId);
+        }
+
+        diagnostics.push(
+          new LlvmWarning({
+            message: `[${rule ? ruleId : match[0]}] ${description}`,
+            line: prefix + line,
+            lineNumber: {
+              start: (footer.valueRange?.lineNumber.start ?? 1) + index,
+            },
+            columnNumber: {
+              start: prefix.length + match.index + 1,
+              range: match[0].length,
+            },
+          })
+        );
+      }
+    }
+  }
+
+  return { ruleIds, diagnostics };
+}
+
+/**
+ * Validates the commit message against the specified ruleset; violations of
+ * rules configured with severity "warning" are reported as `LlvmWarning`, as
+ * are the rules suppressed by the `Commisery-Disable` git-trailer.
+ */
+export function validateRules(
+  message: ConventionalCommitMetadata,
+  config: Configuration
+): LlvmMessage[] {
+  const suppressions = getSuppressedRules(message, config);
+  const errors: LlvmMessage[] = [...suppressions.diagnostics];
 
   const disabledRules = Array.from(config.rules)
     .filter(item => item[1].enabled === false)
     .map(item => item[0]);
 
-  for (const rule of ALL_RULES) {
-    try {
-      if (!disabledRules.includes(rule.id)) {
-        rule.validate(message, config);
-      }
-    } catch (error: unknown) {
-      if (error instanceof LlvmError) {
-        errors.push(error);
-        continue;
-      }
+  for (const rule of [
+    ...ALL_RULES,
+    ...config.customRules,
+    ...config.pluginRules,
+  ]) {
+    if (
+      disabledRules.includes(rule.id) ||
+      suppressions.ruleIds.includes(rule.id)
+    ) {
+      continue;
+    }
 
-      throw error;
+    const diagnostics = config.pluginRules.includes(rule)
+      ? validatePluginRule(rule, message, config)
+      : rule.validate(message, config);
+    const isWarning = config.rules.get(rule.id)?.severity === "warning";
+    for (const diagnostic of diagnostics) {
+      errors.push(isWarning ? new LlvmWarning(diagnostic) : diagnostic);
     }
   }
 
   return errors;
 }
 
-const ISSUE_REGEX_IGNORED_KEYWORDS = ["AES", "CVE", "PEP", "SHA", "UTF", "VT"];
-const ISSUE_REGEX = new RegExp(
-  `(?!\\b(?:${ISSUE_REGEX_IGNORED_KEYWORDS.join(
-    "|"
-  )})\\b)\\b[A-Z]+-[0-9]+\\b(?!-)`
-);
+/* Pull request reference appended to the subject by GitHub, i.e. ` (#123)` */
+const PULL_REQUEST_SUFFIX_REGEX = /\s\(#[0-9]+\)$/;
+const SIGN_OFF_REGEX = /^(?<name>[^<]*)<(?<email>[^>]+)>\s*$/;
 
 /**
  */
@@ -76,21 +259,22 @@ class NonLowerCaseType implements IConventionalCommitRule {
   description = "Type tag should be in lower case";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.type === undefined) {
-      return;
+      return [];
     }
     if (message.type.toLowerCase() !== message.type) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.type) + 1,
-          range: message.type.length,
-        },
-        expectations: message.type.toLowerCase(),
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          ...message.ast.type?.range,
+          expectations: message.type.toLowerCase(),
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -102,13 +286,18 @@ class OneWhitelineBetweenSubjectAndBody implements IConventionalCommitRule {
   description = "Only one empty line between subject and body";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.body.length >= 2 && message.body[1].trim() === "") {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.body[1],
+          lineNumber: message.ast.body[1].range.lineNumber,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -120,20 +309,22 @@ class TitleCaseDescription implements IConventionalCommitRule {
   description = "Description should not start with a capital case letter";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (
       message.description &&
       !message.description.startsWith(message.description[0].toLowerCase())
     ) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.description) + 1,
-        },
-        expectations: message.description[0].toLowerCase(),
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          ...message.ast.description?.range,
+          expectations: message.description[0].toLowerCase(),
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -145,9 +336,12 @@ class UnknownTagType implements IConventionalCommitRule {
   description = "Subject should not contain an unknown tag type";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, config: Configuration): void {
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
     if (message.type === undefined) {
-      return;
+      return [];
     }
 
     if (!(message.type in config.tags)) {
@@ -159,18 +353,19 @@ class UnknownTagType implements IConventionalCommitRule {
         ? matches[0]
         : Object.keys(config.tags).join(", ");
 
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}. Use one of: ${Object.keys(
-          config.tags
-        ).join(", ")}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.type) + 1,
-          range: message.type.length,
-        },
-        expectations: closestMatch,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}. Use one of: ${Object.keys(
+            config.tags
+          ).join(", ")}`,
+          line: message.subject,
+          ...message.ast.type?.range,
+          expectations: closestMatch,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -183,22 +378,23 @@ class SeparatorContainsTrailingWhitespaces implements IConventionalCommitRule {
     'Zero spaces before and only one space allowed after the ":" separator';
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.separator === null) {
-      return;
+      return [];
     }
 
     if (message.separator !== ": ") {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.separator) + 1,
-          range: message.separator.length,
-        },
-        expectations: `: `,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          ...message.ast.separator?.range,
+          expectations: `: `,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -210,21 +406,42 @@ class ScopeShouldNotBeEmpty implements IConventionalCommitRule {
   description = "Scope should not be empty";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    if (message.scope === undefined) {
-      return;
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    if (message.scope === undefined || message.ast.scope === undefined) {
+      return [];
     }
 
     if (!message.scope.trim()) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf("(") + 1,
-          range: message.scope.length + 2,
-        },
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start: message.ast.scope.range.columnNumber.start - 1,
+            range: message.scope.length + 2,
+          },
+        }),
+      ];
     }
+
+    // Each of the scopes in a multi-scope subject should be non-empty as well
+    return splitScope(message.ast.scope, config.scopeSeparator)
+      .filter(scope => !scope.value.trim())
+      .map(
+        scope =>
+          new LlvmError({
+            message: `[${this.id}] ${this.description}`,
+            line: message.subject,
+            lineNumber: scope.range.lineNumber,
+            columnNumber: {
+              start: scope.range.columnNumber.start,
+              range: Math.max(1, scope.value.length),
+            },
+          })
+      );
   }
 }
 
@@ -236,18 +453,25 @@ class ScopeContainsWhitespace implements IConventionalCommitRule {
   description = "Scope should not contain any whitespace";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    if (message.scope && message.scope.length !== message.scope.trim().length) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf("(") + 2,
-          range: message.scope.length,
-        },
-        expectations: message.scope.trim(),
-      });
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    if (!message.scope || message.ast.scope === undefined) {
+      return [];
     }
+
+    return splitScope(message.ast.scope, config.scopeSeparator)
+      .filter(scope => scope.value.length !== scope.value.trim().length)
+      .map(
+        scope =>
+          new LlvmError({
+            message: `[${this.id}] ${this.description}`,
+            line: message.subject,
+            ...scope.range,
+            expectations: scope.value.trim(),
+          })
+      );
   }
 }
 
@@ -259,26 +483,34 @@ class MissingSeparator implements IConventionalCommitRule {
   description = `Subject requires a separator (": ") after the type tag`;
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.separator === undefined || !message.separator.includes(":")) {
       const columnNumber = {
         start: Math.max(1, message.subject.indexOf(" ") + 1),
       };
 
-      if (message.scope) {
+      const { scope, breakingChange } = message.ast;
+      if (breakingChange?.value) {
+        columnNumber.start =
+          breakingChange.range.columnNumber.start +
+          breakingChange.value.trimEnd().length;
+      } else if (scope) {
+        // Position right after the closing parenthesis
         columnNumber.start =
-          message.subject.indexOf(message.scope) + message.scope.length + 2;
-      } else if (message.breakingChange) {
-        columnNumber.start = message.subject.indexOf(message.breakingChange);
+          scope.range.columnNumber.start + scope.value.length + 1;
       }
 
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber,
-        expectations: `:`,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber,
+          expectations: `:`,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -290,14 +522,18 @@ class MissingDescription implements IConventionalCommitRule {
   description = "Subject requires a description";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (!message.description) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: { start: message.subject.length + 2 },
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: { start: message.subject.length + 2 },
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -309,22 +545,27 @@ class BreakingIndicatorContainsWhitespacing implements IConventionalCommitRule {
   description = 'No whitespace allowed around the "!" indicator';
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (
       message.breakingChange &&
       message.breakingChange.trim() !== message.breakingChange
     ) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.breakingChange) + 1,
-          range:
-            message.breakingChange.length + message.separator.trimEnd().length,
-        },
-        expectations: `!:`,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start: message.ast.breakingChange?.range.columnNumber.start ?? 1,
+            range:
+              message.breakingChange.length +
+              message.separator.trimEnd().length,
+          },
+          expectations: `!:`,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -336,18 +577,22 @@ class OnlySingleBreakingIndicator implements IConventionalCommitRule {
   description = "Breaking separator should consist of only one indicator";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.breakingChange && message.breakingChange.trim().length > 1) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.breakingChange) + 1,
-          range: message.breakingChange.length + 1,
-        },
-        expectations: `!:`,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start: message.ast.breakingChange?.range.columnNumber.start ?? 1,
+            range: message.breakingChange.length + 1,
+          },
+          expectations: `!:`,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -359,13 +604,17 @@ class MissingTypeTag implements IConventionalCommitRule {
   description = "Subject requires a type";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (!message.type) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -377,14 +626,18 @@ class SubjectShouldNotEndWithPunctuation implements IConventionalCommitRule {
   description = "Subject should not end with punctuation";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.description.match(/.*[.!?,]$/)) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: { start: message.subject.length },
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: { start: message.subject.length },
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -396,21 +649,28 @@ class SubjectExceedsLineLengthLimit implements IConventionalCommitRule {
   description = "Subject should be within the line length limit";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, config: Configuration): void {
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
     if (message.subject.length > config.maxSubjectLength) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description} (${
-          config.maxSubjectLength
-        }), exceeded by ${
-          message.subject.length - config.maxSubjectLength + 1
-        } characters`,
-        line: message.subject,
-        columnNumber: {
-          start: config.maxSubjectLength,
-          range: message.subject.length - config.maxSubjectLength + 1,
-        },
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description} (${
+            config.maxSubjectLength
+          }), exceeded by ${
+            message.subject.length - config.maxSubjectLength + 1
+          } characters`,
+          line: message.subject,
+          columnNumber: {
+            start: config.maxSubjectLength,
+            range: message.subject.length - config.maxSubjectLength + 1,
+          },
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -422,26 +682,27 @@ class NoRepeatedTags implements IConventionalCommitRule {
   description = "Description should not start with a repetition of the tag";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.description === undefined || message.type === undefined) {
-      return;
+      return [];
     }
     if (
       message.description.split(" ")[0].toLowerCase() ===
       message.type.toLowerCase()
     ) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start:
-            message.subject.indexOf(message.separator) +
-            message.separator.length +
-            1,
-          range: message.type.length,
-        },
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start: message.ast.description?.range.columnNumber.start ?? 1,
+            range: message.type.length,
+          },
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -453,62 +714,93 @@ class DescriptionInImperativeMood implements IConventionalCommitRule {
   description = "Description should be written in imperative mood";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    const commonNonImperativeVerbs = [
-      "added",
-      "adds",
-      "adding",
-      "applied",
-      "applies",
-      "applying",
-      "edited",
-      "edits",
-      "editing",
-      "expanded",
-      "expands",
-      "expanding",
-      "fixed",
-      "fixes",
-      "fixing",
-      "removed",
-      "removes",
-      "removing",
-      "renamed",
-      "renames",
-      "renaming",
-      "deleted",
-      "deletes",
-      "deleting",
-      "updated",
-      "updates",
-      "updating",
-      "ensured",
-      "ensures",
-      "ensuring",
-      "resolved",
-      "resolves",
-      "resolving",
-      "verified",
-      "verifies",
-      "verifying",
-    ];
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const [word, nextWord] =
+      /^([a-zA-Z]+)\b\W*([a-zA-Z]+)?/
+        .exec(message.description ?? "")
+        ?.slice(1) ?? [];
     if (
-      message.description.match(
-        new RegExp(`^(${commonNonImperativeVerbs.join("|")})`, "i")
+      word === undefined ||
+      config.imperativeMoodExceptions.some(
+        exception => exception.toLowerCase() === word.toLowerCase()
       )
     ) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: message.subject.indexOf(message.description) + 1,
-          range: message.description.split(" ")[0].length,
-        },
-      });
+      return [];
     }
+
+    const imperative = getImperativeForm(word, nextWord);
+    if (imperative !== undefined) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start: message.ast.description?.range.columnNumber.start ?? 1,
+            range: word.length,
+          },
+          // Retain the capitalization of the original word
+          expectations: /^[A-Z]/.test(word)
+            ? imperative[0].toUpperCase() + imperative.slice(1)
+            : imperative,
+        }),
+      ];
+    }
+
+    return [];
   }
 }
 
+/**
+ * Phrases referring to the processing of review remarks; extended with the
+ * `review-remark-phrases` from the configuration.
+ */
+const REVIEW_REMARK_PHRASES = [
+  "review comment",
+  "review remark",
+  "review feedback",
+  "review finding",
+  "review point",
+  "pr comment",
+  "pr remark",
+  "pr feedback",
+  "pull request comment",
+  "pull request remark",
+  "pull request feedback",
+  "as per review",
+  "per review",
+  "after review",
+  "according to review",
+  // Comments and feedback are only considered review remarks when qualified
+  // as such (i.e. "review comment"), as these are valid subjects by themselves
+  "address remark",
+  "incorporate remark",
+  "process remark",
+];
+
+/**
+ * Returns a (case-insensitive) regular expression matching any of `phrases`,
+ * tolerating plurals (or third-person verbs), articles and hyphens or
+ * underscores between their words, i.e. "address remark" matches
+ * "Addresses the remarks".
+ */
+function phraseRegex(phrases: string[]): RegExp {
+  const separator = "(?:[\\s_-]+(?:the|a|an|all)\\b)?[\\s_-]+";
+  const patterns = phrases
+    .filter(phrase => phrase.trim() !== "")
+    .map(phrase =>
+      phrase
+        .trim()
+        .split(/[\s_-]+/)
+        .map(word => word.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&"))
+        .map(word => `${word}(?:e?s)?`)
+        .join(separator)
+    );
+  return new RegExp(`\\b(?:${patterns.join("|")})\\b`, "i");
+}
+
 /**
  * Subject should not contain reference to review comments
  */
@@ -517,8 +809,34 @@ class SubjectContainsReviewRemarks implements IConventionalCommitRule {
   description = "Subject should not contain reference to review comments";
   default = true;
 
-  validate(_: ConventionalCommitMetadata, __: Configuration): void {
-    // TODO: implement this rule
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    if (!message.description) {
+      return [];
+    }
+
+    const match = phraseRegex([
+      ...REVIEW_REMARK_PHRASES,
+      ...config.reviewRemarkPhrases,
+    ]).exec(message.description);
+    if (match) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start:
+              (message.ast.description?.range.columnNumber.start ?? 1) +
+              match.index,
+            range: match[0].length,
+          },
+        }),
+      ];
+    }
+
+    return [];
   }
 }
 
@@ -531,12 +849,18 @@ class MissingEmptyLineBetweenSubjectAndBody implements IConventionalCommitRule {
     "Commit message should contain an empty line between subject and body";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
     if (message.body && message.body[0]) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-      });
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.body[0],
+          lineNumber: message.ast.body[0].range.lineNumber,
+        }),
+      ];
     }
+
+    return [];
   }
 }
 
@@ -548,18 +872,29 @@ class SubjectContainsIssueReference implements IConventionalCommitRule {
   description = "Subject should not contain a ticket reference";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    const match = ISSUE_REGEX.exec(message.subject);
-    if (match) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-        line: message.subject,
-        columnNumber: {
-          start: match.index + 1,
-          range: match[0].length,
-        },
-      });
-    }
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    // The pull request reference appended when squash merging is allowed
+    const end =
+      PULL_REQUEST_SUFFIX_REGEX.exec(message.subject)?.index ??
+      message.subject.length;
+    const matches = message.subject
+      .substring(0, end)
+      .matchAll(config.getIssueReferenceRegex("g", true));
+    return Array.from(
+      matches,
+      match =>
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber: {
+            start: (match.index ?? 0) + 1,
+            range: match[0].length,
+          },
+        })
+    );
   }
 }
 
@@ -571,20 +906,22 @@ class GitTrailerContainsWhitespace implements IConventionalCommitRule {
   description = "Git-trailer should not contain whitespace";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    for (const item of message.footers) {
-      if (item.token.includes(" ")) {
-        throw new LlvmError({
-          message: `[${this.id}] ${this.description}`,
-          line: `${item.token}: ${item.value}`,
-          columnNumber: {
-            start: 1,
-            range: item.token.length,
-          },
-          expectations: item.token.replace(/ /g, "-"),
-        });
-      }
-    }
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
+    return message.footers
+      .filter(item => item.token.includes(" "))
+      .map(
+        item =>
+          new LlvmError({
+            message: `[${this.id}] ${this.description}`,
+            line: `${item.token}: ${item.value}`,
+            lineNumber: item.tokenRange?.lineNumber,
+            columnNumber: {
+              start: 1,
+              range: item.token.length,
+            },
+            expectations: item.token.replace(/ /g, "-"),
+          })
+      );
   }
 }
 
@@ -605,18 +942,17 @@ class BreakingChangeMustBeFirstGitTrailer implements IConventionalCommitRule {
     "The BREAKING CHANGE git-trailer should be the first element in the footer";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    // eslint-disable-next-line github/array-foreach
-    message.footers.forEach((item, index) => {
-      if (item.token === "BREAKING-CHANGE") {
-        if (index === 0) {
-          return;
-        }
-        throw new LlvmError({
-          message: `[${this.id}] ${this.description}`,
-        });
-      }
-    });
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
+    return message.footers
+      .filter((item, index) => item.token === "BREAKING-CHANGE" && index > 0)
+      .map(
+        item =>
+          new LlvmError({
+            message: `[${this.id}] ${this.description}`,
+            line: `${item.token}: ${item.value}`,
+            ...item.tokenRange,
+          })
+      );
   }
 }
 
@@ -628,14 +964,18 @@ class GitTrailerNeedAColon implements IConventionalCommitRule {
   description = "A colon is required in git-trailers";
   default = true;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const issueReference = config.getIssueReferenceRegex().source;
     const trailerFormats = [
-      /^Addresses:* (?:[A-Z]+-[0-9]+|#[0-9]+)/,
-      /^Closes:* (?:[A-Z]+-[0-9]+|#[0-9]+)/,
-      /^Fixes:* (?:[A-Z]+-[0-9]+|#[0-9]+)/,
-      /^Implements:* (?:[A-Z]+-[0-9]+|#[0-9]+)/,
-      /^References:* (?:[A-Z]+-[0-9]+|#[0-9]+)/,
-      /^Refs:* (?:[A-Z]+-[0-9]+|#[0-9]+)/,
+      new RegExp(`^Addresses:* (?:${issueReference})`),
+      new RegExp(`^Closes:* (?:${issueReference})`),
+      new RegExp(`^Fixes:* (?:${issueReference})`),
+      new RegExp(`^Implements:* (?:${issueReference})`),
+      new RegExp(`^References:* (?:${issueReference})`),
+      new RegExp(`^Refs:* (?:${issueReference})`),
       /^Acked-by/,
       /^Authored-by/,
       /^BREAKING CHANGE/,
@@ -649,6 +989,7 @@ class GitTrailerNeedAColon implements IConventionalCommitRule {
     ];
     // If a trailer doesn't have a colon, it won't be in the footers list,
     // so we examine the body here, from the bottom to the top.
+    const errors: LlvmError[] = [];
     for (let i = message.body.length - 1; i >= 0; --i) {
       const line = message.body[i];
 
@@ -657,18 +998,23 @@ class GitTrailerNeedAColon implements IConventionalCommitRule {
       if (trailerFormats.some(key => checkLine.match(key))) {
         if (checkLine.match(/^[A-Za-z0-9-]+ /)) {
           const idx = checkLine.indexOf(" ");
-          throw new LlvmError({
-            message: `[${this.id}] ${this.description}`,
-            line,
-            columnNumber: {
-              start: idx + 1,
-              range: line.substring(idx).length,
-            },
-            expectations: `: ${line.substring(idx + 1)}`,
-          });
+          errors.push(
+            new LlvmError({
+              message: `[${this.id}] ${this.description}`,
+              line,
+              lineNumber: message.ast.body[i].range.lineNumber,
+              columnNumber: {
+                start: idx + 1,
+                range: line.substring(idx).length,
+              },
+              expectations: `: ${line.substring(idx + 1)}`,
+            })
+          );
         }
       }
     }
+
+    return errors;
   }
 }
 
@@ -687,15 +1033,620 @@ class FooterContainsTicketReference implements IConventionalCommitRule {
   description = "A ticket reference is required in at least one footer value";
   default = false;
 
-  validate(message: ConventionalCommitMetadata, _: Configuration): void {
-    if (!message.footers.some(footer => ISSUE_REGEX.exec(footer.value))) {
-      throw new LlvmError({
-        message: `[${this.id}] ${this.description}`,
-      });
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const issueReference = config.getIssueReferenceRegex();
+    if (!message.footers.some(footer => issueReference.test(footer.value))) {
+      const firstFooter = message.ast.footers[0];
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          lineNumber: firstFooter?.token.range.lineNumber ?? {
+            start: message.ast.body.length + 2,
+          },
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * The emoji prefix should correspond with the type tag
+ */
+class EmojiPrefixMatchesType implements IConventionalCommitRule {
+  id = "C027";
+  description = "Emoji prefix should correspond with the type tag";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const emojis = Object.keys(config.emojiTypes);
+    if (!message.emoji || emojis.length === 0) {
+      return [];
+    }
+
+    const type = config.emojiTypes[message.emoji];
+    if (type === undefined || type !== message.type) {
+      return [
+        new LlvmError({
+          message:
+            type === undefined
+              ? `[${this.id}] ${this.description}. Use one of: ${emojis.join(
+                  ", "
+                )}`
+              : `[${this.id}] ${this.description} (${type})`,
+          line: message.subject,
+          ...message.ast.emoji?.range,
+          expectations: emojis.find(
+            emoji => config.emojiTypes[emoji] === message.type
+          ),
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Scope should be one of the allowed scopes
+ */
+class UnknownScope implements IConventionalCommitRule {
+  id = "C028";
+  description = "Scope should be one of the allowed scopes";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const allowed = Object.keys(config.scopes);
+    if (message.ast.scope === undefined || allowed.length === 0) {
+      return [];
     }
+
+    const errors: LlvmError[] = [];
+    for (const scope of splitScope(message.ast.scope, config.scopeSeparator)) {
+      const value = scope.value.trim();
+      if (value === "" || allowed.includes(value)) {
+        continue;
+      }
+
+      const matches = difflib.getCloseMatches(value.toLowerCase(), allowed);
+      errors.push(
+        new LlvmError({
+          message: `[${this.id}] ${this.description}. Use one of: ${allowed.join(
+            ", "
+          )}`,
+          line: message.subject,
+          lineNumber: scope.range.lineNumber,
+          columnNumber: {
+            start:
+              scope.range.columnNumber.start +
+              scope.value.length -
+              scope.value.trimStart().length,
+            range: value.length,
+          },
+          expectations: matches[0],
+        })
+      );
+    }
+
+    return errors;
   }
 }
 
+/**
+ * Subject requires a scope for this type tag
+ */
+class MissingRequiredScope implements IConventionalCommitRule {
+  id = "C029";
+  description = "Subject requires a scope for this type tag";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    if (
+      message.type === undefined ||
+      !config.scopeRequiredTypes.includes(message.type)
+    ) {
+      return [];
+    }
+
+    if (!message.scope?.trim()) {
+      const type = message.ast.type?.range.columnNumber;
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description} (${message.type})`,
+          line: message.subject,
+          columnNumber: { start: (type?.start ?? 1) + (type?.range ?? 0) },
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Body lines should be within the line length limit
+ */
+class BodyExceedsLineLengthLimit implements IConventionalCommitRule {
+  id = "C030";
+  description = "Body lines should be within the line length limit";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const limit = config.maxBodyLineLength;
+    if (limit === undefined) {
+      return [];
+    }
+
+    return message.ast.body
+      .filter(line => line.value.length > limit)
+      .map(
+        line =>
+          new LlvmError({
+            message: `[${this.id}] ${this.description} (${limit}), exceeded by ${
+              line.value.length - limit
+            } characters`,
+            line: line.value,
+            lineNumber: line.range.lineNumber,
+            columnNumber: {
+              start: limit + 1,
+              range: line.value.length - limit,
+            },
+          })
+      );
+  }
+}
+
+/**
+ * Commit message requires a body
+ */
+class MissingBody implements IConventionalCommitRule {
+  id = "C031";
+  description = "Commit message requires a body";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    if (message.ast.paragraphs.length > 0) {
+      return [];
+    }
+
+    const isBreakingChange =
+      !!message.breakingChange?.trim() ||
+      message.footers.some(footer => footer.token === "BREAKING-CHANGE");
+
+    let reason: string | undefined;
+    if (message.type && config.bodyRequiredTypes.includes(message.type)) {
+      reason = message.type;
+    } else if (isBreakingChange && config.bodyRequiredForBreakingChanges) {
+      reason = "breaking change";
+    }
+
+    if (reason !== undefined) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description} (${reason})`,
+          line: message.subject,
+          columnNumber: { start: message.subject.length + 1 },
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Body should meet the minimum length
+ */
+class BodyBelowMinimumLength implements IConventionalCommitRule {
+  id = "C032";
+  description = "Body should meet the minimum length";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const { paragraphs } = message.ast;
+    if (config.minBodyLength <= 0 || paragraphs.length === 0) {
+      return [];
+    }
+
+    const length = paragraphs
+      .map(paragraph => paragraph.value.trim())
+      .join(os.EOL + os.EOL).length;
+    if (length < config.minBodyLength) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description} (${
+            config.minBodyLength
+          }), short by ${config.minBodyLength - length} characters`,
+          line: paragraphs[0].value.split(os.EOL)[0],
+          lineNumber: paragraphs[0].range.lineNumber,
+          columnNumber: paragraphs[0].range.columnNumber,
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Body lines should not contain trailing whitespace or tabs
+ */
+class BodyContainsTrailingWhitespaceOrTabs implements IConventionalCommitRule {
+  id = "C033";
+  description = "Body lines should not contain trailing whitespace or tabs";
+  default = false;
+
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
+    const errors: LlvmError[] = [];
+    for (const line of message.ast.body) {
+      const trimmed = line.value.trimEnd();
+      const tab = line.value.indexOf("\t");
+      if (tab === -1 && trimmed.length === line.value.length) {
+        continue;
+      }
+
+      errors.push(
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: line.value,
+          lineNumber: line.range.lineNumber,
+          columnNumber:
+            tab !== -1 && tab < trimmed.length
+              ? { start: tab + 1, range: 1 }
+              : {
+                  start: trimmed.length + 1,
+                  range: line.value.length - trimmed.length,
+                },
+        })
+      );
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Returns whether `identity` matches any of the provided (`*` wildcard)
+ * patterns, either by name or by email address
+ */
+function matchesIdentity(identity: IIdentity, patterns: string[]): boolean {
+  return patterns.some(pattern => {
+    const escaped = pattern
+      .split("*")
+      .map(part => part.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&"))
+      .join(".*");
+    const regex = new RegExp(`^${escaped}$`, "i");
+    return regex.test(identity.name) || regex.test(identity.email);
+  });
+}
+
+/**
+ * Commit message requires a Signed-off-by trailer matching the author
+ */
+class MissingSignOffByAuthor implements IConventionalCommitRule {
+  id = "C034";
+  description =
+    "Commit message requires a Signed-off-by trailer matching the author";
+  default = false;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const { author } = message;
+    if (
+      author === undefined ||
+      matchesIdentity(author, config.dcoAllowedBots)
+    ) {
+      return [];
+    }
+
+    const expected = `${author.name} <${author.email}>`;
+    const signOffs = message.footers.filter(
+      footer => footer.token.toLowerCase() === "signed-off-by"
+    );
+    const matchesAuthor = (value: string): boolean => {
+      const groups = SIGN_OFF_REGEX.exec(value)?.groups;
+      return (
+        groups !== undefined &&
+        groups.name.trim() === author.name &&
+        groups.email.toLowerCase() === author.email.toLowerCase()
+      );
+    };
+    if (signOffs.some(footer => matchesAuthor(footer.value))) {
+      return [];
+    }
+
+    // Point at the (first) mismatching sign-off, if any
+    const signOff = signOffs[0];
+    return [
+      new LlvmError({
+        message: `[${this.id}] ${this.description} (${expected})`,
+        ...(signOff
+          ? {
+              line: `${signOff.token}: ${signOff.value}`,
+              lineNumber: signOff.valueRange?.lineNumber,
+              columnNumber: {
+                start: signOff.token.length + 3,
+                range: signOff.value.length,
+              },
+              expectations: expected,
+            }
+          : {
+              line: message.subject,
+              columnNumber: { start: message.subject.length + 1 },
+            }),
+      }),
+    ];
+  }
+}
+
+const WORK_IN_PROGRESS_PHRASES = [
+  "wip",
+  "work in progress",
+  "do not merge",
+  "don't merge",
+  "dont merge",
+  "do not submit",
+  "not ready for merge",
+  "tmp commit",
+  "temp commit",
+  "temporary commit",
+];
+/* Descriptions that mark the commit as temporary when used on their own */
+const TEMPORARY_DESCRIPTION_REGEX = /^(?:tmp|temp|temporary|todo|draft)$/i;
+
+/**
+ * Subject should not mark the commit as work in progress
+ */
+class SubjectMarksWorkInProgress implements IConventionalCommitRule {
+  id = "C035";
+  description = "Subject should not mark the commit as work in progress";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    let columnNumber: ILlvmRange | undefined;
+
+    const match = phraseRegex([
+      ...WORK_IN_PROGRESS_PHRASES,
+      ...config.workInProgressPhrases,
+    ]).exec(message.subject);
+    if (match) {
+      columnNumber = { start: match.index + 1, range: match[0].length };
+    } else if (
+      message.ast.description &&
+      TEMPORARY_DESCRIPTION_REGEX.test(message.description.trim())
+    ) {
+      columnNumber = message.ast.description.range.columnNumber;
+    }
+
+    if (columnNumber !== undefined) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: message.subject,
+          columnNumber,
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Returns whether `path` matches the glob `pattern`, in which `**` matches any
+ * number of directories, `*` any sequence of characters other than `/` and `?`
+ * any single character other than `/`. As in `.gitignore`, patterns without a
+ * `/` match the file name in any directory.
+ */
+function matchesPathPattern(path: string, pattern: string): boolean {
+  const source = pattern
+    .replace(/^\//, "")
+    .split(/(\*\*\/|\*\*|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case "**/":
+          return "(?:.*/)?";
+        case "**":
+          return ".*";
+        case "*":
+          return "[^/]*";
+        case "?":
+          return "[^/]";
+        default:
+          return part.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&");
+      }
+    })
+    .join("");
+  const anyDirectory = pattern.includes("/") ? "" : "(?:.*/)?";
+  return new RegExp(`^${anyDirectory}${source}$`).test(path);
+}
+
+/**
+ * Changed files should be within the paths allowed for the type tag
+ */
+class ChangedFilesOutsideTypePaths implements IConventionalCommitRule {
+  id = "C040";
+  description =
+    "Changed files should be within the paths allowed for the type tag";
+  default = true;
+
+  validate(
+    message: ConventionalCommitMetadata,
+    config: Configuration
+  ): LlvmError[] {
+    const patterns = message.type ? config.typePaths[message.type] : undefined;
+    if (message.files === undefined || patterns === undefined) {
+      return [];
+    }
+
+    const outside = message.files.filter(
+      file => !patterns.some(pattern => matchesPathPattern(file, pattern))
+    );
+    if (outside.length > 0) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description} (${patterns.join(
+            ", "
+          )}): ${outside.join(", ")}`,
+          line: message.subject,
+          ...message.ast.type?.range,
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+/**
+ * Element of the commit message validated by a custom rule, along with the
+ * line(s) of the commit message it is located on
+ */
+interface ICustomRuleElement {
+  token: IToken;
+  lines: string[];
+}
+
+/**
+ * User-defined rule, validating an element of the commit message against the
+ * patterns provided in the configuration (`custom-rules`)
+ */
+export class CustomRule implements IConventionalCommitRule {
+  id: string;
+  description: string;
+  default: boolean;
+  target: CustomRuleTarget;
+  mustMatch?: RegExp;
+  mustNotMatch?: RegExp;
+
+  constructor(item: ICustomRuleConfigItem) {
+    this.id = item.id;
+    this.description = item.message;
+    this.default = item.default;
+    this.target = item.target;
+    if (item.mustMatch !== undefined) {
+      this.mustMatch = new RegExp(item.mustMatch);
+    }
+    if (item.mustNotMatch !== undefined) {
+      this.mustNotMatch = new RegExp(item.mustNotMatch);
+    }
+  }
+
+  private getElements(
+    message: ConventionalCommitMetadata
+  ): ICustomRuleElement[] {
+    const { ast } = message;
+    const footerLine = (index: number): string =>
+      `${ast.footers[index].token.value}: ${
+        ast.footers[index].value.value.split(os.EOL)[0]
+      }`;
+
+    switch (this.target) {
+      case "subject":
+      case "type":
+      case "scope":
+      case "description": {
+        const token = ast[this.target];
+        return token ? [{ token, lines: [message.subject] }] : [];
+      }
+      case "body":
+        return ast.body
+          .filter(line => line.value.trim() !== "")
+          .map(line => ({ token: line, lines: [line.value] }));
+      case "footer-token":
+        return ast.footers.map((footer, index) => ({
+          token: footer.token,
+          lines: [footerLine(index)],
+        }));
+      case "footer-value":
+        return ast.footers.map((footer, index) => ({
+          token: footer.value,
+          lines: [
+            footerLine(index),
+            ...footer.value.value.split(os.EOL).slice(1),
+          ],
+        }));
+    }
+  }
+
+  validate(message: ConventionalCommitMetadata, _: Configuration): LlvmError[] {
+    const elements = this.getElements(message);
+    const errors: LlvmError[] = [];
+
+    if (this.mustNotMatch) {
+      for (const { token, lines } of elements) {
+        const match = this.mustNotMatch.exec(token.value);
+        if (!match) {
+          continue;
+        }
+        // Locate the match within (multi-line) elements
+        const preceding = token.value.substring(0, match.index).split(os.EOL);
+        const index = preceding.length - 1;
+        errors.push(
+          new LlvmError({
+            message: `[${this.id}] ${this.description}`,
+            line: lines[index],
+            lineNumber: { start: token.range.lineNumber.start + index },
+            columnNumber: {
+              start:
+                (index === 0 ? token.range.columnNumber.start : 1) +
+                preceding[index].length,
+              range: match[0].split(os.EOL)[0].length,
+            },
+          })
+        );
+      }
+    }
+
+    if (
+      this.mustMatch &&
+      !elements.some(({ token }) => this.mustMatch?.test(token.value))
+    ) {
+      errors.push(
+        new LlvmError({
+          message: `[${this.id}] ${this.description}`,
+          line: elements[0]?.lines[0] ?? message.subject,
+          ...(elements[0]?.token.range ?? {
+            columnNumber: { start: message.subject.length + 1 },
+          }),
+        })
+      );
+    }
+
+    return errors;
+  }
+}
+
+/* IDs of removed rules, which should not be re-used */
+export const RETIRED_RULE_IDS = ["C022", "C025"];
+
 export const ALL_RULES = [
   new NonLowerCaseType(),
   new OneWhitelineBetweenSubjectAndBody(),
@@ -720,8 +1671,188 @@ export const ALL_RULES = [
   new BreakingChangeMustBeFirstGitTrailer(),
   new GitTrailerNeedAColon(),
   new FooterContainsTicketReference(),
+  new EmojiPrefixMatchesType(),
+  new UnknownScope(),
+  new MissingRequiredScope(),
+  new BodyExceedsLineLengthLimit(),
+  new MissingBody(),
+  new BodyBelowMinimumLength(),
+  new BodyContainsTrailingWhitespaceOrTabs(),
+  new MissingSignOffByAuthor(),
+  new SubjectMarksWorkInProgress(),
+  new ChangedFilesOutsideTypePaths(),
 ];
 
+/**
+ * Returns the subject of the (potentially non-compliant) commit
+ */
+function subjectOf(commit: IValidationResult): string {
+  return commit.message?.subject ?? commit.input.message.split(/\r?\n/)[0];
+}
+
+/**
+ * Pull request should not exceed the maximum number of commits
+ */
+class PullRequestExceedsCommitLimit implements IPullRequestRule {
+  id = "C036";
+  description = "Pull request should not exceed the maximum number of commits";
+  default = true;
+
+  validate(commits: IValidationResult[], config: Configuration): LlvmError[] {
+    const limit = config.maxPullRequestCommits;
+    if (limit === undefined || commits.length <= limit) {
+      return [];
+    }
+
+    return [
+      new LlvmError({
+        message: `[${this.id}] ${this.description} (${limit}), exceeded by ${
+          commits.length - limit
+        } commits`,
+        line: subjectOf(commits[limit]),
+      }),
+    ];
+  }
+}
+
+/**
+ * Commit subjects should be unique within the pull request
+ */
+class DuplicateSubjects implements IPullRequestRule {
+  id = "C037";
+  description = "Commit subjects should be unique within the pull request";
+  default = false;
+
+  validate(commits: IValidationResult[], _: Configuration): LlvmError[] {
+    const errors: LlvmError[] = [];
+    const seen = new Map<string, IValidationResult>();
+    for (const commit of commits) {
+      const subject = subjectOf(commit).trim();
+      const original = seen.get(subject.toLowerCase());
+      if (original !== undefined) {
+        errors.push(
+          new LlvmError({
+            message: `[${this.id}] ${this.description} (${original.input.sha.slice(
+              0,
+              8
+            )} and ${commit.input.sha.slice(0, 8)})`,
+            line: subject,
+          })
+        );
+        continue;
+      }
+      seen.set(subject.toLowerCase(), commit);
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Breaking and non-breaking changes should not be mixed within the same scope
+ */
+class MixedBreakingChangesInScope implements IPullRequestRule {
+  id = "C038";
+  description =
+    "Breaking and non-breaking changes should not be mixed within the same scope";
+  default = false;
+
+  validate(commits: IValidationResult[], _: Configuration): LlvmError[] {
+    const errors: LlvmError[] = [];
+    const changes = new Map<
+      string,
+      { breaking?: string; other?: string; reported?: boolean }
+    >();
+    for (const { message } of commits) {
+      // Changes that do not bump the version (i.e. the tests accompanying a
+      // breaking change) are not considered
+      if (message === undefined || message.bump === SemVerType.NONE) {
+        continue;
+      }
+      for (const scope of message.scopes) {
+        const change = changes.get(scope) ?? {};
+        if (message.breakingChange) {
+          change.breaking ??= message.subject;
+        } else {
+          change.other ??= message.subject;
+        }
+        changes.set(scope, change);
+
+        if (
+          change.breaking !== undefined &&
+          change.other !== undefined &&
+          !change.reported
+        ) {
+          change.reported = true;
+          errors.push(
+            new LlvmError({
+              message: `[${this.id}] ${this.description} (${scope})`,
+              line: change.other,
+            })
+          );
+        }
+      }
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Pull request should contain at most one feature
+ */
+class MultipleFeatures implements IPullRequestRule {
+  id = "C039";
+  description = "Pull request should contain at most one feature";
+  default = false;
+
+  validate(commits: IValidationResult[], _: Configuration): LlvmError[] {
+    const features = commits.filter(({ message }) => message?.type === "feat");
+    if (features.length > 1) {
+      return [
+        new LlvmError({
+          message: `[${this.id}] ${this.description} (${features.length} feat commits)`,
+          line: subjectOf(features[1]),
+        }),
+      ];
+    }
+
+    return [];
+  }
+}
+
+export const ALL_PULL_REQUEST_RULES = [
+  new PullRequestExceedsCommitLimit(),
+  new DuplicateSubjects(),
+  new MixedBreakingChangesInScope(),
+  new MultipleFeatures(),
+];
+
+/**
+ * Validates the commits (i.e. of a pull request) as a whole against the
+ * pull request rules; merge, fixup and revert commits are not taken into
+ * account. Violations of rules configured with severity "warning" are
+ * reported as `LlvmWarning`.
+ */
+export function validatePullRequestRules(
+  commits: IValidationResult[],
+  config: Configuration
+): LlvmMessage[] {
+  const errors: LlvmMessage[] = [];
+
+  for (const rule of ALL_PULL_REQUEST_RULES) {
+    if (config.rules.get(rule.id)?.enabled === false) {
+      continue;
+    }
+    const isWarning = config.rules.get(rule.id)?.severity === "warning";
+    for (const diagnostic of rule.validate(commits, config)) {
+      errors.push(isWarning ? new LlvmWarning(diagnostic) : diagnostic);
+    }
+  }
+
+  return errors;
+}
+
 export function getConventionalCommitRule(id: string): IConventionalCommitRule {
   for (const rule of ALL_RULES) {
     if (rule.id === id) {
@@ -18,13 +18,16 @@ import * as core from "@actions/core";
 
 import { ConventionalCommitMessage } from "./commit";
 import { Configuration } from "./config";
+import { getRuleExplanationUrl } from "./explanations";
 import {
+  getChangedFiles,
   getCommitsInPR,
   getPullRequestBaseRef,
   getPullRequestId,
   getPullRequestTitle,
 } from "./github";
-import { LlvmError } from "./logging";
+import { LlvmError, LlvmMessage, LlvmWarning } from "./logging";
+import { validatePullRequestRules } from "./rules";
 import { SemVerType } from "./semver";
 import { ICommit, IValidationResult } from "./interfaces";
 import {
@@ -34,27 +37,30 @@ import {
   RevertCommitError,
 } from "./errors";
 
+const FIXUP_SUBJECT_REGEX = /^(?:(?:fixup|squash)!\s+)+(?<target>.*)$/;
+
 interface ValidationResult {
   compliant: boolean;
   messages: ConventionalCommitMessage[];
 }
 
 /**
-/* Takes a single non-compliant commit `message`, its `sha`, and its list of
- * `errors`, and outputs them to `core.error` if the parameter `useErrorLevel`
- * is `true`, or `core.warning` otherwise.
+/* Takes a single commit `message`, its `sha`, and its list of `errors`, and
+ * outputs them to `core.error` if the parameter `useErrorLevel` is `true`, or
+ * `core.warning` otherwise. Warnings are always output to `core.warning`.
  * If `sha` is `undefined`, the message is assumed to be a pull request title
  * and the output will reflect that.
  */
 function outputCommitErrors(
   message: string,
-  errors: LlvmError[],
+  errors: LlvmMessage[],
   sha: string | undefined,
   useErrorLevel: boolean
 ): void {
   const isPullRequestTitle = sha === undefined;
+  const icon = errors.some(e => e instanceof LlvmError) ? "❌" : "⚠️";
   if (isPullRequestTitle) {
-    core.startGroup(`❌ Pull request title`);
+    core.startGroup(`${icon} Pull request title`);
     core.info(
       "⚠️ A pull request's title is the default value for a generated merge commit. " +
         "It should therefore adhere to the Conventional Commits specification as well.\n" +
@@ -63,13 +69,14 @@ function outputCommitErrors(
     );
   } else {
     const subject = (message.match(/^.*$/m) ?? [""])[0];
-    core.startGroup(`❌ Commit (${sha.slice(0, 8)}): ${subject}`);
+    core.startGroup(`${icon} Commit (${sha.slice(0, 8)}): ${subject}`);
   }
   for (const error of errors) {
     if (error.message === undefined) {
       continue;
     }
-    const outputFunc = useErrorLevel ? core.error : core.warning;
+    const outputFunc =
+      useErrorLevel && error instanceof LlvmError ? core.error : core.warning;
     outputFunc(error.message, {
       title: isPullRequestTitle
         ? `(PR title) ${message}`
@@ -79,13 +86,17 @@ function outputCommitErrors(
     if (indicatorMaybe) {
       core.info(indicatorMaybe);
     }
+    const explanationUrl = getRuleExplanationUrl(error);
+    if (explanationUrl) {
+      core.info(`See ${explanationUrl} for more information`);
+    }
   }
   core.endGroup();
 }
 
 /**
- * Takes an array of IValidationResult objects and outputs the errors
- * contained therein.
+ * Takes an array of IValidationResult objects and outputs the errors and
+ * warnings contained therein.
  * When `useErrorLevel` is set to `true`, the commit errors are printed
  * the on error level (when `false`, the warning level).
  */
@@ -94,8 +105,14 @@ export function outputCommitListErrors(
   useErrorLevel: boolean
 ): void {
   for (const c of validationResults) {
-    if (c.errors.length > 0) {
-      outputCommitErrors(c.input.message, c.errors, c.input.sha, useErrorLevel);
+    const diagnostics = [...c.errors, ...c.warnings];
+    if (diagnostics.length > 0) {
+      outputCommitErrors(
+        c.input.message,
+        diagnostics,
+        c.input.sha,
+        useErrorLevel
+      );
     }
   }
 }
@@ -114,14 +131,26 @@ export function processCommits(
     const message = commit.message;
 
     try {
-      const cc = new ConventionalCommitMessage(message, undefined, config);
-      results.push({ input: commit, message: cc, errors: [] });
+      const cc = new ConventionalCommitMessage(
+        message,
+        undefined,
+        config,
+        commit.author,
+        commit.files
+      );
+      results.push({
+        input: commit,
+        message: cc,
+        errors: [],
+        warnings: cc.warnings,
+      });
     } catch (error: unknown) {
       if (error instanceof ConventionalCommitError) {
         results.push({
           input: commit,
           message: undefined,
           errors: error.errors,
+          warnings: error.warnings,
         });
         continue;
       } else if (
@@ -138,6 +167,125 @@ export function processCommits(
   return results;
 }
 
+/**
+ * Verifies the `fixup!` and `squash!` commits in `commits` according to the
+ * configured fixup commit policy, and reports the ones that do not match the
+ * subject (or SHA) of any other commit in the list, as `git rebase
+ * --autosquash` would not be able to squash those.
+ * Returns `false` if the commits should be considered non-compliant.
+ */
+function validateFixupCommits(
+  commits: ICommit[],
+  config: Configuration
+): boolean {
+  const subjectOf = (commit: ICommit): string =>
+    commit.message.split(/\r?\n/)[0];
+  const fixups = commits.filter(c => FIXUP_SUBJECT_REGEX.test(subjectOf(c)));
+  if (fixups.length === 0) {
+    return true;
+  }
+
+  const targets = commits.filter(c => !fixups.includes(c));
+  const orphans = fixups.filter(fixup => {
+    const target =
+      FIXUP_SUBJECT_REGEX.exec(subjectOf(fixup))?.groups?.target.trim() ?? "";
+    // A fixup commit without target cannot be squashed into any commit
+    return (
+      target === "" ||
+      !targets.some(
+        c => subjectOf(c).startsWith(target) || c.sha.startsWith(target)
+      )
+    );
+  });
+  const fail = config.fixupCommits === "fail";
+  const outputFunc = fail ? core.error : core.warning;
+
+  core.info(""); // for vertical whitespace
+  if (config.fixupCommits !== "allow") {
+    outputFunc(
+      `${fixups.length} of the pull request's commits are fixup or squash ` +
+        "commits, which should be squashed before merging"
+    );
+  }
+  for (const fixup of orphans) {
+    outputFunc(
+      `Commit (${fixup.sha.slice(0, 8)}) "${subjectOf(fixup)}" does not match ` +
+        "any other commit in the pull request"
+    );
+  }
+
+  if (fail) {
+    core.setFailed(
+      "The pull request contains fixup or squash commits" +
+        `${orphans.length > 0 ? `, ${orphans.length} of which are orphaned` : ""}`
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Validates the commits of the pull request as a whole, using the pull
+ * request rules (i.e. the maximum number of commits).
+ * Returns `false` if the commits should be considered non-compliant.
+ */
+function validatePullRequestCommits(
+  results: IValidationResult[],
+  config: Configuration
+): boolean {
+  const diagnostics = validatePullRequestRules(results, config);
+  if (diagnostics.length === 0) {
+    return true;
+  }
+
+  const errors = diagnostics.filter(d => d instanceof LlvmError);
+  core.info(""); // for vertical whitespace
+  core.startGroup(
+    `${errors.length > 0 ? "❌" : "⚠️"} Commits of the pull request`
+  );
+  for (const diagnostic of diagnostics) {
+    const outputFunc =
+      diagnostic instanceof LlvmError ? core.error : core.warning;
+    outputFunc(diagnostic.message ?? "", {
+      title: `(Pull request) ${diagnostic.line ?? ""}`,
+    });
+    const explanationUrl = getRuleExplanationUrl(diagnostic);
+    if (explanationUrl) {
+      core.info(`See ${explanationUrl} for more information`);
+    }
+  }
+  core.endGroup();
+
+  if (errors.length > 0) {
+    core.setFailed(
+      "The commits of the pull request are not compliant with the pull request rules"
+    );
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Retrieves the files changed by each of the commits, when required to
+ * validate the type tags against the configured `type-paths` (C040); this
+ * requires an API request per commit.
+ */
+async function retrieveChangedFiles(
+  commits: ICommit[],
+  config: Configuration
+): Promise<void> {
+  if (
+    config.rules.get("C040")?.enabled === false ||
+    Object.keys(config.typePaths).length === 0
+  ) {
+    return;
+  }
+
+  for (const commit of commits) {
+    commit.files = await getChangedFiles(commit.sha);
+  }
+}
+
 /**
  * Validates all commit messages in the current pull request.
  */
@@ -145,6 +293,7 @@ export async function validateCommitsInCurrentPR(
   config: Configuration
 ): Promise<ValidationResult> {
   const commits: ICommit[] = await getCommitsInPR(getPullRequestId());
+  await retrieveChangedFiles(commits, config);
   const results: IValidationResult[] = processCommits(commits, config);
 
   const passResults = results.filter(c => c.errors.length === 0);
@@ -162,6 +311,8 @@ export async function validateCommitsInCurrentPR(
       core.info(c.input.message);
       core.endGroup();
     }
+    // Warnings do not affect the compliance of the commits
+    outputCommitListErrors(passResults, true);
   }
   if (failResults.length > 0) {
     core.info(""); // for vertical whitespace
@@ -172,8 +323,11 @@ export async function validateCommitsInCurrentPR(
     outputCommitListErrors(failResults, true);
   }
 
+  const fixupsOk = validateFixupCommits(commits, config);
+  const pullRequestOk = validatePullRequestCommits(results, config);
+
   return {
-    compliant: failResults.length === 0,
+    compliant: failResults.length === 0 && fixupsOk && pullRequestOk,
     messages: passResults.map(r => r.message as ConventionalCommitMessage),
   };
 }
@@ -183,10 +337,11 @@ export async function validateCommitsInCurrentPR(
  * ConventionalCommitMessage object.
  */
 export async function validatePrTitle(
-  _: Configuration
+  config: Configuration
 ): Promise<ConventionalCommitMessage | undefined> {
   const prTitleText = await getPullRequestTitle();
   let errors: LlvmError[] = [];
+  let warnings: LlvmWarning[] = [];
   let conventionalCommitMessage: ConventionalCommitMessage | undefined;
 
   core.info(""); // for vertical whitespace
@@ -194,10 +349,15 @@ export async function validatePrTitle(
     "The pull request title is not compliant " +
     "with the Conventional Commits specification";
   try {
-    conventionalCommitMessage = new ConventionalCommitMessage(prTitleText);
+    conventionalCommitMessage = new ConventionalCommitMessage(
+      prTitleText,
+      undefined,
+      config
+    );
   } catch (error: unknown) {
     if (error instanceof ConventionalCommitError) {
       errors = error.errors;
+      warnings = error.warnings;
     } else if (
       error instanceof MergeCommitError ||
       error instanceof FixupCommitError
@@ -222,13 +382,17 @@ export async function validatePrTitle(
   }
   if (errors.length > 0) {
     core.setFailed(errorMessage);
-    outputCommitErrors(prTitleText, errors, undefined, true);
+    outputCommitErrors(prTitleText, [...errors, ...warnings], undefined, true);
   } else {
     core.startGroup(
       `✅ The pull request title is compliant with the Conventional Commits specification`
     );
     core.info(prTitleText);
     core.endGroup();
+    warnings = conventionalCommitMessage?.warnings ?? [];
+    if (warnings.length > 0) {
+      outputCommitErrors(prTitleText, warnings, undefined, true);
+    }
   }
   return conventionalCommitMessage;
 }
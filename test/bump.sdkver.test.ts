@@ -674,6 +674,72 @@ describe("Dry run", () => {
   });
 });
 
+describe("Release-As", () => {
+  beforeEach(() => {
+    jest.spyOn(core, "getBooleanInput").mockImplementation(setting => {
+      return setting === "dry-run";
+    });
+    gh.context.ref = "refs/heads/main";
+    jest.spyOn(github, "currentHeadMatchesTag").mockResolvedValue(false);
+    jest.spyOn(github, "getRelease").mockResolvedValue(undefined);
+  });
+
+  const releaseAsCommit = U.toICommit("chore: prepare\n\nRelease-As: 3.0.0");
+
+  test.each([
+    { releaseType: "rel", expectedVersion: "3.0.0" },
+    { releaseType: "rc", expectedVersion: "3.0.0-rc01" },
+    {
+      releaseType: "dev",
+      expectedVersion: `3.0.0-dev001.g${U.HEAD_SHA_ABBREV_12}`,
+    },
+  ])("$releaseType bump", async ({ releaseType, expectedVersion }) => {
+    setInputSpyWith({ "release-type": releaseType });
+    jest
+      .spyOn(github, "matchTagsToCommits")
+      .mockResolvedValue([
+        SemVer.fromString(U.INITIAL_VERSION),
+        [releaseAsCommit].concat(U.DEFAULT_COMMIT_LIST),
+      ]);
+
+    await bumpaction.run();
+
+    expect(core.setOutput).toHaveBeenCalledWith(
+      "next-version",
+      expectedVersion
+    );
+    expect(core.setOutput).toHaveBeenCalledWith(
+      "bump-metadata",
+      JSON.stringify({
+        bump: {
+          from: U.INITIAL_VERSION,
+          to: expectedVersion,
+          type: releaseType,
+          releaseAs: { version: "3.0.0", sha: releaseAsCommit.sha },
+        },
+      })
+    );
+    expect(core.setFailed).not.toHaveBeenCalled();
+  });
+
+  test("not allowed on release branches", async () => {
+    gh.context.ref = "refs/heads/release/1.2";
+    setInputSpyWith({ "release-type": "rel" });
+    jest
+      .spyOn(github, "matchTagsToCommits")
+      .mockResolvedValue([
+        SemVer.fromString(U.INITIAL_VERSION),
+        [releaseAsCommit].concat(U.DEFAULT_COMMIT_LIST),
+      ]);
+
+    await bumpaction.run();
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining("not allowed on release branches")
+    );
+  });
+});
+
 afterAll(() => {
   jest.restoreAllMocks();
 });
@@ -23,7 +23,7 @@ import * as validate from "../src/validate";
 
 import { getVersionBumpTypeAndMessages } from "../src/bump";
 import * as fs from "fs";
-import { SemVer } from "../src/semver";
+import { SemVer, SemVerType } from "../src/semver";
 import * as U from "./test_utils";
 import { Configuration } from "../src/config";
 import { IGitHubRelease, IGitTag, IVersionOutput } from "../src/interfaces";
@@ -110,6 +110,54 @@ describe("Bump functionality", () => {
       expectedVersion: U.PATCH_BUMPED_VERSION,
       expectedReleaseType: "patch",
     },
+    {
+      testDescription: "no bump when a breaking change is reverted",
+      messages: [
+        U.toICommit(
+          `Revert "${U.MAJOR_MSG.message}"\n\n` +
+            `This reverts commit ${U.MAJOR_MSG.sha}.`
+        ),
+        U.MAJOR_MSG,
+        U.NONE_MSG1,
+      ],
+      prTitle: U.PRTITLE("chore"),
+      expectedVersion: "",
+      expectedReleaseType: "",
+    },
+    {
+      testDescription: "bump major when a revert is reverted",
+      messages: [
+        U.toICommit(
+          `Revert "Revert "${U.MAJOR_MSG.message}""\n\n` +
+            `This reverts commit ${U.toICommit(
+              `Revert "${U.MAJOR_MSG.message}"\n\n` +
+                `This reverts commit ${U.MAJOR_MSG.sha}.`
+            ).sha.substring(0, 10)}.`
+        ),
+        U.toICommit(
+          `Revert "${U.MAJOR_MSG.message}"\n\n` +
+            `This reverts commit ${U.MAJOR_MSG.sha}.`
+        ),
+        U.MAJOR_MSG,
+      ],
+      prTitle: U.PRTITLE("chore!"),
+      expectedVersion: U.MAJOR_BUMPED_VERSION,
+      expectedReleaseType: "major",
+    },
+    {
+      // Reverting an already released commit results in a patch bump
+      testDescription: "bump patch (revert of released commit)",
+      messages: [
+        U.toICommit(
+          `Revert "${U.MINOR_MSG.message}"\n\n` +
+            `This reverts commit ${U.MINOR_MSG.sha}.`
+        ),
+        U.NONE_MSG1,
+      ],
+      prTitle: U.PRTITLE("revert"),
+      expectedVersion: U.PATCH_BUMPED_VERSION,
+      expectedReleaseType: "patch",
+    },
     {
       testDescription: "bump minor",
       messages: [U.PATCH_MSG, U.MINOR_MSG, U.PATCH_MSG, U.NONE_MSG1],
@@ -644,6 +692,66 @@ describe("Initial development", () => {
   });
 });
 
+describe("Release-As", () => {
+  test("bump to the requested version", async () => {
+    const releaseAsCommit = U.toICommit(
+      "chore: leave initial development\n\nRelease-As: 2.0.0"
+    );
+    jest.spyOn(github, "createRelease").mockResolvedValue({
+      name: U.MAJOR_BUMPED_VERSION,
+      id: 123456,
+      draft: false,
+      prerelease: false,
+    });
+    jest
+      .spyOn(github, "matchTagsToCommits")
+      .mockResolvedValue([
+        SemVer.fromString(U.INITIAL_VERSION),
+        [U.PATCH_MSG, releaseAsCommit].concat(U.DEFAULT_COMMIT_LIST),
+      ]);
+
+    await bumpaction.run();
+
+    expect(core.setOutput).toHaveBeenCalledWith(
+      "next-version",
+      U.MAJOR_BUMPED_VERSION
+    );
+    expect(core.setOutput).toHaveBeenCalledWith(
+      "bump-metadata",
+      expect.stringContaining(
+        `"type":"major","releaseAs":{"version":"2.0.0","sha":"${releaseAsCommit.sha}"}`
+      )
+    );
+    // The changelog should run up to the requested version
+    expect(changelog.generateChangelog).toHaveBeenCalledWith(
+      expect.anything(),
+      U.MAJOR_BUMPED_VERSION
+    );
+    expect(core.setFailed).not.toHaveBeenCalled();
+  });
+
+  test.each(["1.2.3", "1.0.0", "next"])(
+    "reject requested version %s",
+    async version => {
+      jest
+        .spyOn(github, "matchTagsToCommits")
+        .mockResolvedValue([
+          SemVer.fromString(U.INITIAL_VERSION),
+          [U.toICommit(`fix: something\n\nRelease-As: ${version}`)].concat(
+            U.DEFAULT_COMMIT_LIST
+          ),
+        ]);
+
+      await bumpaction.run();
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringContaining(`'Release-As: ${version}'`)
+      );
+      expect(github.createRelease).not.toHaveBeenCalled();
+    }
+  );
+});
+
 describe("Create changelog", () => {
   const createChangelogInput = [
     { desc: "yes", createChangelog: true },
@@ -1007,16 +1115,19 @@ describe("Process Commits Configuration", () => {
     jest.resetAllMocks();
   });
 
-  test("Disable C014 and C019 during bump", async () => {
+  test("Disable C014, C016, C019, C034 and C035 during bump", async () => {
     const processCommits = jest.spyOn(validate, "processCommits");
 
     const config = new Configuration();
     await getVersionBumpTypeAndMessages("f00dcafe", config);
 
-    // Both C014 and C019 are disabled when running bump
+    // These rules are disabled when running bump
     const expectedConfig = new Configuration();
     expectedConfig.setRuleActive("C014", false);
+    expectedConfig.setRuleActive("C016", false);
     expectedConfig.setRuleActive("C019", false);
+    expectedConfig.setRuleActive("C034", false);
+    expectedConfig.setRuleActive("C035", false);
 
     expect(processCommits).toHaveBeenCalledWith([BASE_COMMIT], expectedConfig);
     expect(config).toStrictEqual(new Configuration());
@@ -1040,4 +1151,20 @@ describe("Process Commits Configuration", () => {
 
     processCommits.mockRestore();
   });
+  test("Expanded squash merge commits", async () => {
+    const squashCommit = U.toICommit(
+      "chore: squashed changes (#12)\n\n* feat: add feature\n\n* fix: avoid crash"
+    );
+    jest
+      .spyOn(github, "matchTagsToCommits")
+      .mockResolvedValue([SemVer.fromString("1.0.0"), [squashCommit]]);
+
+    const config = new Configuration();
+    let bump = await getVersionBumpTypeAndMessages("f00dcafe", config);
+    expect(bump.requiredBump).toBe(SemVerType.NONE);
+
+    config.expandSquashCommits = true;
+    bump = await getVersionBumpTypeAndMessages("f00dcafe", config);
+    expect(bump.requiredBump).toBe(SemVerType.MINOR);
+  });
 });
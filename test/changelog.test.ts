@@ -19,6 +19,7 @@ import dedent from "dedent";
 import * as github from "../src/github";
 
 import { ConventionalCommitMessage } from "../src/commit";
+import { Configuration } from "../src/config";
 import {
   generateChangelog,
   generateChangelogForCommits,
@@ -37,6 +38,7 @@ function createMessages(messages: ICommit[]) {
       input: c,
       message: new ConventionalCommitMessage(c.message, c.sha), // don't catch exceptions
       errors: [],
+      warnings: [],
     };
   });
 }
@@ -179,6 +181,21 @@ describe("Generate Changelog", () => {
     );
   });
 
+  test("Configured issue references", async () => {
+    const config = new Configuration();
+    config.issueProjectKeys = ["PROJ"];
+    config.issueGitHubReferences = false;
+
+    const changelog = await generateChangelogForCommits("1.0.0", "1.1.0", [
+      new ConventionalCommitMessage(
+        "feat: add feature\n\nImplements: PROJ-1\nRefs: #42, other/repo#7",
+        "17e57c03317",
+        config
+      ),
+    ]);
+    expect(changelog).toContain("* Add feature (#123) (PROJ-1, other/repo#7)");
+  });
+
   test("Exclusion labels (Global)", async () => {
     const bump: IVersionBumpTypeAndMessages = {
       foundVersion: new SemVer({ major: 1, minor: 0, patch: 0 }),
@@ -442,6 +459,112 @@ describe("Generate Changelog", () => {
     );
   });
 
+  test("Conventional commit group by multiple scopes", async () => {
+    const bump: IVersionBumpTypeAndMessages = {
+      foundVersion: new SemVer({ major: 1, minor: 0, patch: 0 }),
+      requiredBump: SemVerType.MINOR,
+      processedCommits: createMessages([
+        { message: "feat(API,cli): add option", sha: "17e57c03317" },
+        { message: "fix(cli): avoid crash", sha: "27e57c03317" },
+      ]),
+      initialDevelopment: false,
+    };
+
+    jest.spyOn(github, "getReleaseConfiguration").mockResolvedValue(
+      JSON.stringify({
+        changelog: {
+          group: "scope",
+          categories: [
+            { title: "Features", labels: ["bump:minor"] },
+            { title: "Fixes", labels: ["bump:patch"] },
+          ],
+        },
+      })
+    );
+
+    const changelog = await generateChangelog(bump);
+    expect(changelog).toEqual(
+      dedent(
+        `## What's changed
+        ### Api
+        #### Features
+        * Add option (#123) [[17e57c](https://github.com/tomtom-international/commisery-action/commit/17e57c03317)]
+        ### Cli
+        #### Features
+        * Add option (#123) [[17e57c](https://github.com/tomtom-international/commisery-action/commit/17e57c03317)]
+        #### Fixes
+        * Avoid crash (#123) [[27e57c](https://github.com/tomtom-international/commisery-action/commit/27e57c03317)]
+
+
+        *Diff since last release: [1.0.0...1.1.0](https://github.com/tomtom-international/commisery-action/compare/1.0.0...1.1.0)*`
+      )
+    );
+  });
+
+  test("Revert of a released commit", async () => {
+    jest.spyOn(github, "getReleaseConfiguration").mockResolvedValue("");
+    const changelog = await generateChangelogForCommits("1.0.0", "1.0.1", [
+      new ConventionalCommitMessage(
+        "revert: feat: add new feature\n\nThis reverts commit 1a2b3c4d.",
+        "17e57c03317"
+      ),
+    ]);
+    expect(changelog).toContain(
+      `### :bug: Bug Fixes\n* Revert "feat: add new feature" (#123) [[17e57c]`
+    );
+  });
+
+  test("Expanded squash merge commit", async () => {
+    jest.spyOn(github, "getReleaseConfiguration").mockResolvedValue("");
+    const config = new Configuration();
+    config.expandSquashCommits = true;
+
+    const changelog = await generateChangelogForCommits("1.0.0", "1.1.0", [
+      new ConventionalCommitMessage(
+        dedent(`feat: squashed changes (#12)
+
+          * feat: add new feature
+
+          * fix: avoid crash
+
+          * Some non-compliant commit`),
+        "17e57c03317",
+        config
+      ),
+    ]);
+    expect(changelog).toContain(
+      `### :rocket: New Features\n* Add new feature (#123) [[17e57c]`
+    );
+    expect(changelog).toContain(
+      `### :bug: Bug Fixes\n* Avoid crash (#123) [[17e57c]`
+    );
+    expect(changelog).not.toContain("Squashed changes");
+  });
+
+  test("Emoji prefix", async () => {
+    jest.spyOn(github, "getReleaseConfiguration").mockResolvedValue("");
+    const config = new Configuration();
+    config.emojiTypes = { "✨": "feat" };
+    const commits = () => [
+      new ConventionalCommitMessage(
+        "✨ feat: add new feature",
+        "17e57c03317",
+        config
+      ),
+    ];
+
+    let changelog = await generateChangelogForCommits(
+      "1.0.0",
+      "1.1.0",
+      commits()
+    );
+    expect(changelog).toContain("* Add new feature (#123)");
+
+    config.emojiInChangelog = true;
+    changelog = await generateChangelogForCommits("1.0.0", "1.1.0", commits());
+    expect(changelog).toContain("* ✨ Add new feature (#123)");
+  });
+
   test("Commit range", async () => {
     const changelog = await generateChangelogForCommits(
       "123456789a",
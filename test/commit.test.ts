@@ -15,8 +15,12 @@
  */
 
 import dedent from "dedent";
+import * as os from "os";
 
-import { ConventionalCommitMessage } from "../src/commit";
+import { ConventionalCommitMessage, stripMessage } from "../src/commit";
+import { Configuration } from "../src/config";
+import { CleanupMode } from "../src/interfaces";
+import { LlvmWarning } from "../src/logging";
 import { SemVerType } from "../src/semver";
 import {
   ConventionalCommitError,
@@ -46,6 +50,22 @@ describe("Non-compliant Commit Messages", () => {
     }).toThrow(RevertCommitError);
   });
 
+  test("Revert commit referencing the reverted commit", () => {
+    try {
+      new ConventionalCommitMessage(
+        dedent(`Revert "feat: add new feature"
+
+          This reverts commit 1234567890ABCDEF1234567890abcdef12345678.`)
+      );
+      expect("error").toBe("not thrown");
+    } catch (error: unknown) {
+      expect(error).toBeInstanceOf(RevertCommitError);
+      expect((error as RevertCommitError).reverts).toBe(
+        "1234567890abcdef1234567890abcdef12345678"
+      );
+    }
+  });
+
   test("Non-Conventional Commit message", () => {
     expect(() => {
       new ConventionalCommitMessage("silly commit message");
@@ -220,6 +240,220 @@ describe("Bump", () => {
   });
 });
 
+// Validation of the reverted commit of a Commit Message
+//
+describe("Reverts", () => {
+  test("No reverted commit", () => {
+    const msg = new ConventionalCommitMessage("revert: undo something");
+    expect(msg.reverts).toBe(null);
+  });
+
+  test("Reverted commit", () => {
+    const msg = new ConventionalCommitMessage(
+      dedent(`revert: undo something
+
+        This reverts commit 1a2b3c4d.`)
+    );
+    expect(msg.reverts).toBe("1a2b3c4d");
+  });
+});
+
+// Validation of nested commits in (squash merge) Commit Messages
+//
+describe("Nested commits", () => {
+  const message = dedent(`feat: squashed changes (#12)
+
+    * feat!: remove deprecated option
+
+    Details of the removal.
+
+    * fixup! feat!: remove deprecated option
+    - fix(cli): avoid crash
+    * Update documentation`);
+
+  test("Disabled by default", () => {
+    const msg = new ConventionalCommitMessage(message);
+    expect(msg.nestedCommits).toEqual([]);
+  });
+
+  test("Expanded", () => {
+    const config = new Configuration();
+    config.expandSquashCommits = true;
+    const msg = new ConventionalCommitMessage(message, "1a2b3c4d", config);
+
+    expect(msg.bump).toBe(SemVerType.MINOR);
+    expect(msg.nestedCommits.length).toBe(2);
+    expect(msg.nestedCommits[0].description).toBe("remove deprecated option");
+    expect(msg.nestedCommits[0].bump).toBe(SemVerType.MAJOR);
+    expect(msg.nestedCommits[0].hexsha).toBe("1a2b3c4d");
+    expect(msg.nestedCommits[1].type).toBe("fix");
+    expect(msg.nestedCommits[1].scope).toBe("cli");
+  });
+});
+
+// Validation of the Release-As trailer of a Commit Message
+//
+describe("Release-As", () => {
+  test("No requested version", () => {
+    const msg = new ConventionalCommitMessage("feat: add something");
+    expect(msg.releaseAs).toBe(null);
+  });
+
+  test("Requested version", () => {
+    const msg = new ConventionalCommitMessage(
+      "chore: prepare release\n\nRelease-As: 2.0.0"
+    );
+    expect(msg.releaseAs).toBe("2.0.0");
+  });
+});
+
+// Rules configured with severity "warning"
+//
+describe("Warnings", () => {
+  const config = new Configuration();
+  config.setRuleSeverity("C013", "warning");
+
+  test("Compliant with warnings", () => {
+    const msg = new ConventionalCommitMessage(
+      "fix: avoid crash.",
+      undefined,
+      config
+    );
+    expect(msg.warnings.length).toBe(1);
+    expect(msg.warnings[0]).toBeInstanceOf(LlvmWarning);
+    expect(msg.warnings[0].message).toMatch(/^\[C013\]/);
+    expect(new ConventionalCommitMessage("fix: avoid crash").warnings).toEqual(
+      []
+    );
+  });
+
+  test("Non-compliant with warnings", () => {
+    try {
+      new ConventionalCommitMessage("fix : avoid crash.", undefined, config);
+      expect(true).toBe(false);
+    } catch (error: unknown) {
+      expect(error).toBeInstanceOf(ConventionalCommitError);
+      const { errors, warnings } = error as ConventionalCommitError;
+      expect(errors.map(e => e.message?.slice(0, 6))).toEqual(["[C005]"]);
+      expect(warnings.map(e => e.message?.slice(0, 6))).toEqual(["[C013]"]);
+    }
+  });
+});
+
+// Validation of the emoji prefix of a Commit Message
+//
+describe("Emoji", () => {
+  const config = new Configuration();
+  config.emojiTypes = { ":bug:": "fix", "✨": "feat" };
+
+  test("No emoji", () => {
+    const msg = new ConventionalCommitMessage(
+      "fix: avoid crash",
+      undefined,
+      config
+    );
+    expect(msg.emoji).toBe(null);
+  });
+
+  test.each([
+    { message: ":bug: fix: avoid crash", emoji: ":bug:", type: "fix" },
+    { message: "✨ feat(ui): add button", emoji: "✨", type: "feat" },
+  ])("$emoji", ({ message, emoji, type }) => {
+    const msg = new ConventionalCommitMessage(message, undefined, config);
+    expect(msg.emoji).toBe(emoji);
+    expect(msg.type).toBe(type);
+    expect(msg.description).toMatch(/^a/);
+  });
+});
+
+// Normalization of Commit Messages prior to validation
+//
+describe("Strip message", () => {
+  const SCISSORS = "# ------------------------ >8 ------------------------";
+  const message = [
+    "",
+    "feat: add something  ",
+    "",
+    "# Please enter the commit message",
+    "Body text\t",
+    "; Custom comment",
+    SCISSORS,
+    "diff --git a/file b/file",
+    "",
+  ];
+
+  test("CRLF and LF line endings", () => {
+    const crlf = new ConventionalCommitMessage(
+      "feat: add something\r\n\r\nBody text\r\n\r\nImplements: TEST-123\r\n"
+    );
+    expect(crlf.description).toBe("add something");
+    expect(crlf.body?.trim()).toBe("Body text");
+    expect(crlf.footers[0].value).toBe("TEST-123");
+  });
+
+  test.each([
+    {
+      mode: "strip",
+      expected: [
+        "feat: add something  ",
+        "",
+        "Body text\t",
+        "; Custom comment",
+      ],
+    },
+    {
+      mode: "scissors",
+      expected: [
+        "feat: add something  ",
+        "",
+        "# Please enter the commit message",
+        "Body text\t",
+        "; Custom comment",
+      ],
+    },
+    {
+      mode: "whitespace",
+      expected: [
+        "feat: add something  ",
+        "",
+        "# Please enter the commit message",
+        "Body text\t",
+        "; Custom comment",
+        SCISSORS,
+        "diff --git a/file b/file",
+      ],
+    },
+    { mode: "verbatim", expected: message },
+  ])("$mode cleanup mode", ({ mode, expected }) => {
+    expect(
+      stripMessage(message.join("\r\n"), "#", mode as CleanupMode).split(os.EOL)
+    ).toEqual(expected);
+  });
+
+  test("Custom comment character", () => {
+    const stripped = stripMessage(
+      message.join("\n").replace(SCISSORS, SCISSORS.replace("#", ";")),
+      ";"
+    );
+    expect(stripped.split(os.EOL)).toEqual([
+      "feat: add something  ",
+      "",
+      "# Please enter the commit message",
+      // Trailing whitespace at the end of the message is stripped
+      "Body text",
+    ]);
+
+    const config = new Configuration();
+    config.commentChar = ";";
+    const msg = new ConventionalCommitMessage(
+      "feat: add something\n\n#123 is referenced\n; Comment",
+      undefined,
+      config
+    );
+    expect(msg.body).toBe("#123 is referenced");
+  });
+});
+
 // Validation of the description in a Commit Message
 //
 describe("Description", () => {
@@ -320,6 +554,7 @@ describe("Scope", () => {
   test("No Scope", () => {
     const msg = new ConventionalCommitMessage("chore: commit without scope");
     expect(msg.scope).toBe(null);
+    expect(msg.scopes).toEqual([]);
   });
 
   test("Scope", () => {
@@ -327,6 +562,32 @@ describe("Scope", () => {
       "chore(test): commit without scope"
     );
     expect(msg.scope).toBe("test");
+    expect(msg.scopes).toEqual(["test"]);
+  });
+
+  test("Multiple scopes", () => {
+    const msg = new ConventionalCommitMessage("feat(api,cli): add option");
+    expect(msg.scope).toBe("api,cli");
+    expect(msg.scopes).toEqual(["api", "cli"]);
+  });
+
+  test("Multiple scopes with custom separator", () => {
+    const config = new Configuration();
+    config.scopeSeparator = "/";
+
+    let msg = new ConventionalCommitMessage(
+      "fix(core/parser): avoid crash",
+      undefined,
+      config
+    );
+    expect(msg.scopes).toEqual(["core", "parser"]);
+
+    msg = new ConventionalCommitMessage(
+      "fix(api,cli): avoid crash",
+      undefined,
+      config
+    );
+    expect(msg.scopes).toEqual(["api,cli"]);
   });
 });
 
@@ -16,6 +16,8 @@
 
 import dedent from "dedent";
 import * as core from "@actions/core";
+import * as os from "os";
+import * as path from "path";
 
 import { ConventionalCommitMessage } from "../src/commit";
 import { Configuration, _testData } from "../src/config";
@@ -29,6 +31,7 @@ jest.mock("fs", () => ({
   },
   existsSync: jest.fn(),
   readFileSync: jest.fn(),
+  readdirSync: jest.fn(),
   constants: jest.requireActual("fs").constants,
 }));
 
@@ -73,6 +76,15 @@ describe("Configurable options", () => {
       "C020",
       "C023",
       "C024",
+      "C027",
+      "C028",
+      "C029",
+      "C030",
+      "C031",
+      "C032",
+      "C035",
+      "C040",
+      "C036",
     ];
     withConfig("", (config: Configuration) => {
       const enabledRules = Array.from(config.rules)
@@ -83,7 +95,7 @@ describe("Configurable options", () => {
   });
 
   test("Default disabled ruleset", () => {
-    const expectedRules = ["C026"];
+    const expectedRules = ["C026", "C033", "C034", "C037", "C038", "C039"];
     withConfig("", (config: Configuration) => {
       const disabledRules = Array.from(config.rules)
         .filter(item => !item[1].enabled)
@@ -180,6 +192,512 @@ describe("Configurable options", () => {
     });
   });
 
+  test("Default scope separator", () => {
+    withConfig("", (config: Configuration) => {
+      expect(config.scopeSeparator).toBe(",");
+    });
+  });
+
+  test("Override scope separator", () => {
+    withConfig("scope-separator: /", (config: Configuration) => {
+      expect(config.scopeSeparator).toBe("/");
+    });
+    expect(() => {
+      withConfig("scope-separator: 1", (_config: Configuration) => {});
+    }).toThrow();
+  });
+
+  test("Fixup commit policy", () => {
+    withConfig("", (config: Configuration) => {
+      expect(config.fixupCommits).toBe("allow");
+    });
+    withConfig("fixup-commits: fail", (config: Configuration) => {
+      expect(config.fixupCommits).toBe("fail");
+    });
+    expect(() => {
+      withConfig("fixup-commits: reject", (_config: Configuration) => {});
+    }).toThrow(
+      "Incorrect value 'reject' for 'fixup-commits', must be one of: 'allow', 'warn', 'fail'"
+    );
+  });
+
+  test("Comment character and cleanup mode", () => {
+    withConfig("", (config: Configuration) => {
+      expect(config.commentChar).toBeUndefined();
+      expect(config.cleanupMode).toBeUndefined();
+    });
+    withConfig(
+      "comment-char: ';'\ncleanup-mode: scissors",
+      (config: Configuration) => {
+        expect(config.commentChar).toBe(";");
+        expect(config.cleanupMode).toBe("scissors");
+      }
+    );
+    expect(() => {
+      withConfig("comment-char: '//'", (_config: Configuration) => {});
+    }).toThrow();
+    expect(() => {
+      withConfig("cleanup-mode: default", (_config: Configuration) => {});
+    }).toThrow();
+  });
+
+  test("Emoji types", () => {
+    withConfig(
+      dedent(`
+        emoji-types:
+          ":sparkles:": feat
+          "🐛": fix
+        emoji-in-changelog: true
+        `),
+      (config: Configuration) => {
+        expect(config.emojiTypes).toEqual({
+          ":sparkles:": "feat",
+          "🐛": "fix",
+        });
+        expect(config.emojiInChangelog).toBe(true);
+      }
+    );
+    expect(() => {
+      withConfig("emoji-types: feat", (_config: Configuration) => {});
+    }).toThrow();
+  });
+
+  test("Imperative mood exceptions", () => {
+    withConfig(
+      "imperative-mood-exceptions: [logging, tests]",
+      (config: Configuration) => {
+        expect(config.imperativeMoodExceptions).toEqual(["logging", "tests"]);
+      }
+    );
+    expect(() => {
+      withConfig(
+        "imperative-mood-exceptions: tests",
+        (_config: Configuration) => {}
+      );
+    }).toThrow();
+  });
+
+  test("DCO allowed bots", () => {
+    withConfig(
+      dedent(`
+        dco-allowed-bots:
+          - dependabot[bot]
+          - "*@users.noreply.github.com"
+        `),
+      (config: Configuration) => {
+        expect(config.dcoAllowedBots).toEqual([
+          "dependabot[bot]",
+          "*@users.noreply.github.com",
+        ]);
+      }
+    );
+    expect(() => {
+      withConfig("dco-allowed-bots: renovate", (_config: Configuration) => {});
+    }).toThrow();
+  });
+
+  test("Forbidden suppressions", () => {
+    withConfig("forbid-suppression: [C026, C034]", (config: Configuration) => {
+      expect(config.forbiddenSuppressions).toEqual(["C026", "C034"]);
+    });
+    expect(() => {
+      withConfig("forbid-suppression: true", (_config: Configuration) => {});
+    }).toThrow();
+  });
+
+  test("Issue references", () => {
+    withConfig("", (config: Configuration) => {
+      // GitHub references are not detected in the subject unless configured
+      for (const reference of ["#12", "owner/repo#12"]) {
+        expect(config.getIssueReferenceRegex().test(`fixes ${reference}`)).toBe(
+          true
+        );
+        expect(
+          config.getIssueReferenceRegex("", true).test(`fixes ${reference}`)
+        ).toBe(false);
+      }
+    });
+    withConfig(
+      dedent(`
+        issue-references:
+          project-keys: [PROJ]
+          github: false
+          cross-repository: false
+          patterns: ["SR[0-9]{6}"]
+          ignore: []
+        `),
+      (config: Configuration) => {
+        expect(config.issueProjectKeys).toEqual(["PROJ"]);
+        expect(config.issueIgnoredWords).toEqual([]);
+
+        const regex = config.getIssueReferenceRegex();
+        for (const reference of ["PROJ-1", "SR123456"]) {
+          expect(regex.test(`fixes ${reference}`)).toBe(true);
+        }
+        for (const reference of ["TEST-1", "#12", "owner/repo#12"]) {
+          expect(regex.test(`fixes ${reference}`)).toBe(false);
+        }
+      }
+    );
+
+    withConfig("", (config: Configuration) => {
+      const regex = config.getIssueReferenceRegex("g");
+      expect(
+        Array.from("TEST-1, #12, owner/repo#34 and UTF-8".matchAll(regex)).map(
+          match => match[0]
+        )
+      ).toEqual(["TEST-1", "#12", "owner/repo#34"]);
+    });
+
+    for (const value of [
+      "{ project-keys: PROJ }",
+      "{ github: yes please }",
+      '{ patterns: ["(unclosed"] }',
+    ]) {
+      expect(() => {
+        withConfig(
+          `issue-references: ${value}`,
+          (_config: Configuration) => {}
+        );
+      }).toThrow();
+    }
+  });
+
+  test("Work in progress phrases", () => {
+    withConfig(
+      "work-in-progress-phrases: [squash me]",
+      (config: Configuration) => {
+        expect(config.workInProgressPhrases).toEqual(["squash me"]);
+      }
+    );
+    expect(() => {
+      withConfig(
+        "work-in-progress-phrases: squash me",
+        (_config: Configuration) => {}
+      );
+    }).toThrow();
+  });
+
+  test("Type paths", () => {
+    withConfig(
+      dedent(`
+        type-paths:
+          docs: ["docs/**", "*.md"]
+        `),
+      (config: Configuration) => {
+        expect(config.typePaths).toEqual({ docs: ["docs/**", "*.md"] });
+      }
+    );
+    for (const value of ["docs/**", "{docs: docs/**}", "{docs: [1]}"]) {
+      expect(() => {
+        withConfig(`type-paths: ${value}`, (_config: Configuration) => {});
+      }).toThrow();
+    }
+  });
+
+  test("Pull request", () => {
+    withConfig("pull-request: { max-commits: 5 }", (config: Configuration) => {
+      expect(config.maxPullRequestCommits).toEqual(5);
+    });
+    withConfig("", (config: Configuration) => {
+      expect(config.maxPullRequestCommits).toBeUndefined();
+    });
+    expect(() => {
+      withConfig(
+        "pull-request: { max-commits: many }",
+        (_config: Configuration) => {}
+      );
+    }).toThrow();
+  });
+
+  test("Review remark phrases", () => {
+    withConfig(
+      dedent(`
+        review-remark-phrases:
+          - as discussed
+        `),
+      (config: Configuration) => {
+        expect(config.reviewRemarkPhrases).toEqual(["as discussed"]);
+      }
+    );
+    for (const value of ["as discussed", "[1, 2]"]) {
+      expect(() => {
+        withConfig(
+          `review-remark-phrases: ${value}`,
+          (_config: Configuration) => {}
+        );
+      }).toThrow();
+    }
+  });
+
+  test("Custom rules", () => {
+    withConfig(
+      dedent(`
+        enable:
+          - X002
+        custom-rules:
+          - id: X001
+            target: description
+            must-not-match: "\\\\bWIP\\\\b"
+            message: Description should not mark work in progress
+          - id: X002
+            target: footer-token
+            must-match: "^Implements$"
+            message: Commit should implement a ticket
+            default: false
+        disable:
+          - X001
+        `),
+      (config: Configuration) => {
+        expect(config.customRules.map(rule => rule.id)).toEqual([
+          "X001",
+          "X002",
+        ]);
+        expect(config.customRules[0].mustNotMatch).toEqual(/\bWIP\b/);
+        expect(config.rules.get("X001")).toEqual({
+          description: "Description should not mark work in progress",
+          enabled: false,
+        });
+        expect(config.rules.get("X002")?.enabled).toBe(true);
+      }
+    );
+
+    for (const rule of [
+      // Rule IDs already in use
+      "{id: C001, target: subject, must-match: x, message: m}",
+      "{id: C022, target: subject, must-match: x, message: m}",
+      // Unknown target
+      "{id: X001, target: title, must-match: x, message: m}",
+      // Missing or invalid pattern
+      "{id: X001, target: subject, message: m}",
+      "{id: X001, target: subject, must-match: '(', message: m}",
+      // Missing message
+      "{id: X001, target: subject, must-match: x}",
+    ]) {
+      expect(() => {
+        withConfig(`custom-rules: [${rule}]`, (_config: Configuration) => {});
+      }).toThrow();
+    }
+  });
+
+  test("Rule severity", () => {
+    withConfig(
+      dedent(`
+        severity:
+          C013: warning
+          C014: off
+          C026: error
+        `),
+      (config: Configuration) => {
+        expect(config.rules.get("C013")).toEqual(
+          expect.objectContaining({ enabled: true, severity: "warning" })
+        );
+        expect(config.rules.get("C014")?.enabled).toBe(false);
+        // Setting a severity enables a rule that is disabled by default
+        expect(config.rules.get("C026")).toEqual(
+          expect.objectContaining({ enabled: true, severity: "error" })
+        );
+      }
+    );
+    expect(() => {
+      withConfig("severity: {C013: info}", (_config: Configuration) => {});
+    }).toThrow();
+  });
+
+  test("Scopes", () => {
+    withConfig(
+      dedent(`
+        scopes:
+          allowed:
+            api: Public API
+            cli:
+          required-for:
+            - fix
+        `),
+      (config: Configuration) => {
+        expect(config.scopes).toEqual({ api: "Public API", cli: "" });
+        expect(config.scopeRequiredTypes).toEqual(["fix"]);
+      }
+    );
+    for (const value of ["{allowed: [api, cli]}", "[api, cli]"]) {
+      withConfig(`scopes: ${value}`, (config: Configuration) => {
+        expect(config.scopes).toEqual({ api: "", cli: "" });
+      });
+    }
+
+    for (const value of [
+      "{allowed: [1, 2]}",
+      "{required-for: fix}",
+      "{derive-from: packages}",
+    ]) {
+      expect(() => {
+        withConfig(`scopes: ${value}`, (_config: Configuration) => {});
+      }).toThrow();
+    }
+  });
+
+  test("Derived scopes", () => {
+    const directory = (name: string) => ({ name, isDirectory: () => true });
+    const files: { [file: string]: string } = {
+      "repo/.commisery.yml": dedent(`
+        scopes:
+          allowed:
+            docs: Documentation
+          derive-from: workspaces
+        `),
+      "repo/package.json": JSON.stringify({ workspaces: ["packages/*"] }),
+      "repo/packages/ui/package.json": JSON.stringify({ name: "@org/ui" }),
+      "repo/packages/core/package.json": JSON.stringify({ name: "core" }),
+    };
+    jest
+      .spyOn(fs, "existsSync")
+      .mockImplementation(
+        (file: any) => file in files || file === "repo/packages"
+      );
+    jest
+      .spyOn(fs, "readFileSync")
+      .mockImplementation((file: any) => files[file]);
+    jest
+      .spyOn(fs, "readdirSync")
+      .mockImplementation((dir: any) =>
+        dir === "repo/packages"
+          ? [directory("ui"), directory("core")]
+          : [directory(".git"), directory("node_modules"), directory("src")]
+      );
+
+    let config = new Configuration("repo/.commisery.yml");
+    expect(config.scopes).toEqual({ docs: "Documentation", ui: "", core: "" });
+
+    files["repo/.commisery.yml"] = "scopes: {derive-from: directories}";
+    config = new Configuration("repo/.commisery.yml");
+    expect(config.scopes).toEqual({ src: "" });
+  });
+
+  test("Body", () => {
+    withConfig(
+      dedent(`
+        body:
+          max-line-length: 72
+          min-length: 20
+          required-for:
+            - feat
+          required-for-breaking-changes: true
+        `),
+      (config: Configuration) => {
+        expect(config.maxBodyLineLength).toBe(72);
+        expect(config.minBodyLength).toBe(20);
+        expect(config.bodyRequiredTypes).toEqual(["feat"]);
+        expect(config.bodyRequiredForBreakingChanges).toBe(true);
+      }
+    );
+
+    for (const value of [
+      "{max-line-length: long}",
+      "{required-for: feat}",
+      "{required-for-breaking-changes: yes please}",
+    ]) {
+      expect(() => {
+        withConfig(`body: ${value}`, (_config: Configuration) => {});
+      }).toThrow();
+    }
+  });
+
+  test("Plugins", () => {
+    const actualFs = jest.requireActual("fs");
+    const directory = actualFs.mkdtempSync(
+      path.join(os.tmpdir(), "commisery-")
+    );
+    const writePlugin = (name: string, contents: string) =>
+      actualFs.writeFileSync(path.join(directory, name), contents);
+    writePlugin(
+      "rules.js",
+      dedent(`
+        module.exports = {
+          rules: [
+            { id: "P001", description: "Plugin rule", default: true, validate: () => {} },
+            { id: "P002", description: "Other rule", default: false, validate: () => {} },
+          ],
+        };`)
+    );
+    writePlugin(
+      "single.js",
+      `module.exports = { id: "P003", description: "Single rule", default: true, validate: () => {} };`
+    );
+    writePlugin(
+      "collision.js",
+      `module.exports = [{ id: "C025", description: "Retired", default: true, validate: () => {} }];`
+    );
+    writePlugin("invalid.js", `module.exports = { id: "P004" };`);
+
+    jest.spyOn(fs, "existsSync").mockImplementation(actualFs.existsSync);
+    jest.spyOn(fs, "readFileSync").mockImplementation(actualFs.readFileSync);
+    const cwd = process.cwd();
+    const readConfig = (contents: string) => {
+      writePlugin(".commisery.yml", contents);
+      return new Configuration(path.join(directory, ".commisery.yml"), true);
+    };
+
+    try {
+      const config = readConfig(
+        "plugins: [./rules.js, single.js]\nenable: [P002]\ndisable: [P003]"
+      );
+      expect(config.pluginRules.map(rule => rule.id)).toEqual([
+        "P001",
+        "P002",
+        "P003",
+      ]);
+      expect(config.rules.get("P001")).toEqual({
+        description: "Plugin rule",
+        enabled: true,
+      });
+      expect(config.rules.get("P002")?.enabled).toBe(true);
+      expect(config.rules.get("P003")?.enabled).toBe(false);
+      expect(config.copy().pluginRules.length).toBe(3);
+
+      for (const plugins of [
+        "[collision.js]",
+        "[rules.js, rules.js]",
+        "[invalid.js]",
+        "[missing.js]",
+        "rules.js",
+      ]) {
+        expect(() => readConfig(`plugins: ${plugins}`)).toThrow();
+      }
+      for (const plugin of [
+        `../${path.basename(directory)}/rules.js`,
+        path.join(directory, "rules.js"),
+      ]) {
+        expect(() => readConfig(`plugins: ["${plugin}"]`)).not.toThrow();
+      }
+      for (const plugin of [
+        "../rules.js",
+        path.join(os.tmpdir(), "rules.js"),
+      ]) {
+        expect(() => readConfig(`plugins: ["${plugin}"]`)).toThrow(
+          "outside of the directory containing the configuration"
+        );
+      }
+
+      // Plugins are ignored unless allowed
+      writePlugin(".commisery.yml", "plugins: [./rules.js]");
+      expect(
+        new Configuration(path.join(directory, ".commisery.yml")).pluginRules
+      ).toEqual([]);
+
+      // Copies do not read the configuration file (in the working directory)
+      // again, nor load its plugins
+      writePlugin(".commisery.yml", "plugins: [./rules.js, missing.js]");
+      process.chdir(directory);
+      const disallowed = new Configuration();
+      expect(disallowed.pluginRules).toEqual([]);
+      expect(disallowed.copy().pluginRules).toEqual([]);
+      expect(disallowed.copy()).toStrictEqual(disallowed);
+    } finally {
+      process.chdir(cwd);
+      actualFs.rmSync(directory, { recursive: true });
+    }
+  });
+
   test("Default tags", () => {
     withConfig("", (config: Configuration) => {
       for (const [key, value] of Object.entries(
@@ -252,6 +770,51 @@ describe("Configurable options", () => {
     );
   });
 
+  test("Bump levels per type", () => {
+    withConfig(
+      dedent(`
+        tags:
+          feat:
+            bump: patch
+          fix:
+            bump: none
+          perf:
+            bump: minor
+          deps:
+            bump: true
+          api:
+            bump: major
+        disable:
+          - C001
+        `),
+      (config: Configuration) => {
+        const expectations = {
+          feat: SemVerType.PATCH,
+          fix: SemVerType.NONE,
+          perf: SemVerType.MINOR,
+          deps: SemVerType.PATCH,
+          api: SemVerType.MAJOR,
+        };
+        for (const [type, bump] of Object.entries(expectations)) {
+          const msg = new ConventionalCommitMessage(
+            `${type}: do something`,
+            undefined,
+            config
+          );
+          expect(msg.bump).toBe(bump);
+          // Bumping the major version does not make a commit a breaking change
+          expect(msg.breakingChange).toBe(false);
+        }
+      }
+    );
+    expect(() => {
+      withConfig(
+        "tags:\n  perf:\n    bump: huge",
+        (_config: Configuration) => {}
+      );
+    }).toThrow("Incorrect value 'huge' for 'perf.bump'");
+  });
+
   test("Default overwritable bumping tag (revert)", () => {
     // With the default "tags" config, "revert" should bump
     withConfig(
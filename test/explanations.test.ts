@@ -0,0 +1,145 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+import { ConventionalCommitMessage } from "../src/commit";
+import { Configuration } from "../src/config";
+import { ConventionalCommitError } from "../src/errors";
+import {
+  getRuleExplanation,
+  getRuleExplanationUrl,
+  RULE_EXPLANATIONS,
+} from "../src/explanations";
+import { LlvmError } from "../src/logging";
+import {
+  ALL_PULL_REQUEST_RULES,
+  CustomRule,
+  validatePullRequestRules,
+} from "../src/rules";
+
+const AUTHOR = { name: "Jane Doe", email: "jane.doe@example.com" };
+/* Files changed by the commits of the examples */
+const FILES = ["src/main.ts"];
+
+/* Configuration required for the examples of rules that are not active by default */
+const CONFIGURE: { [ruleId: string]: (config: Configuration) => void } = {
+  C027: config => (config.emojiTypes = { ":bug:": "fix" }),
+  C028: config => (config.scopes = { api: "" }),
+  C029: config => (config.scopeRequiredTypes = ["fix"]),
+  C030: config => (config.maxBodyLineLength = 72),
+  C031: config => (config.bodyRequiredForBreakingChanges = true),
+  C032: config => (config.minBodyLength = 20),
+  C036: config => (config.maxPullRequestCommits = 2),
+  C040: config => (config.typePaths = { docs: ["docs/**", "*.md"] }),
+};
+
+const PULL_REQUEST_RULE_IDS = ALL_PULL_REQUEST_RULES.map(rule => rule.id);
+
+function reportedRules(message: string, config: Configuration): string[] {
+  try {
+    new ConventionalCommitMessage(message, undefined, config, AUTHOR, FILES);
+  } catch (error: unknown) {
+    expect(error).toBeInstanceOf(ConventionalCommitError);
+    return (error as ConventionalCommitError).errors.map(
+      e => e.message?.substring(1, 5) ?? ""
+    );
+  }
+  return [];
+}
+
+/* Examples of pull request rules consist of one commit subject per line */
+function reportedPullRequestRules(
+  subjects: string,
+  config: Configuration
+): string[] {
+  const commits = subjects.split("\n").map((subject, index) => {
+    const input = { sha: `${index}`.padStart(8, "0"), message: subject };
+    return {
+      input,
+      message: new ConventionalCommitMessage(subject, input.sha, config),
+      errors: [],
+      warnings: [],
+    };
+  });
+  return validatePullRequestRules(commits, config).map(
+    e => e.message?.substring(1, 5) ?? ""
+  );
+}
+
+describe("Rule explanations", () => {
+  test("Every rule is explained", () => {
+    const config = new Configuration();
+    for (const ruleId of config.rules.keys()) {
+      expect(getRuleExplanation(ruleId, config)).toBeDefined();
+    }
+  });
+
+  test.each(Object.keys(RULE_EXPLANATIONS))("Examples of %s", ruleId => {
+    const config = new Configuration();
+    config.setRuleActive(ruleId, true);
+    CONFIGURE[ruleId]?.(config);
+
+    const explanation = RULE_EXPLANATIONS[ruleId];
+    const reported = PULL_REQUEST_RULE_IDS.includes(ruleId)
+      ? reportedPullRequestRules
+      : reportedRules;
+    for (const message of explanation.compliant) {
+      expect(reported(message, config)).not.toContain(ruleId);
+    }
+    for (const message of explanation.nonCompliant) {
+      expect(reported(message, config)).toContain(ruleId);
+    }
+  });
+
+  test("Every explanation is documented", () => {
+    const documentation = fs.readFileSync(
+      path.join(__dirname, "..", "docs", "rules.md"),
+      "utf8"
+    );
+    for (const ruleId of Object.keys(RULE_EXPLANATIONS)) {
+      expect(documentation).toContain(`## ${ruleId}\n`);
+    }
+  });
+
+  test("Custom rules", () => {
+    const config = new Configuration();
+    config.customRules.push(
+      new CustomRule({
+        id: "X001",
+        target: "description",
+        mustNotMatch: "WIP",
+        message: "Description should not contain WIP",
+        default: true,
+      })
+    );
+
+    expect(getRuleExplanation("X001", config)?.rationale).toContain(
+      "must not match `WIP`"
+    );
+    expect(getRuleExplanation("X002", config)).toBeUndefined();
+  });
+
+  test("Documentation link", () => {
+    expect(
+      getRuleExplanationUrl(new LlvmError({ message: "[C015] Description" }))
+    ).toMatch(/\/docs\/rules\.md#c015$/);
+    expect(
+      getRuleExplanationUrl(new LlvmError({ message: "[X001] Custom rule" }))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import dedent from "dedent";
+
+import * as commit from "../src/commit";
+import { ConventionalCommitMessage } from "../src/commit";
+import { Configuration } from "../src/config";
+import { ConventionalCommitError } from "../src/errors";
+import { fixCommitMessage } from "../src/fix";
+import { getConventionalCommitRule } from "../src/rules";
+
+function fix(message: string) {
+  try {
+    new ConventionalCommitMessage(message);
+  } catch (error: unknown) {
+    expect(error).toBeInstanceOf(ConventionalCommitError);
+    return fixCommitMessage(message, (error as ConventionalCommitError).errors);
+  }
+  return fixCommitMessage(message, []);
+}
+
+const ruleIds = (errors: { message?: string }[]) =>
+  errors.map(e => e.message?.substring(1, 5));
+
+describe("Machine-safe fixes", () => {
+  test.each([
+    { rule: "C001", message: "FEAT: add feature", fixed: "feat: add feature" },
+    { rule: "C003", message: "feat: Add feature", fixed: "feat: add feature" },
+    { rule: "C004", message: "feet: add feature", fixed: "feat: add feature" },
+    {
+      rule: "C005",
+      message: "feat :  add feature",
+      fixed: "feat: add feature",
+    },
+    {
+      rule: "C007",
+      message: "feat( cli ,api): add feature",
+      fixed: "feat(cli,api): add feature",
+    },
+    {
+      rule: "C010",
+      message: "feat ! : add feature",
+      fixed: "feat!: add feature",
+    },
+    {
+      rule: "C011",
+      message: "feat!!: add feature",
+      fixed: "feat!: add feature",
+    },
+  ])("$rule", ({ rule, message, fixed }) => {
+    const result = fix(message);
+    expect(result.message).toBe(fixed);
+    expect(ruleIds(result.fixed)).toContain(rule);
+    expect(result.errors).toEqual([]);
+  });
+
+  test("Git-trailers", () => {
+    const result = fix(
+      dedent(`fix: avoid crash
+
+        Body.
+
+        Addresses TEST-123
+        Reviewed by: Jane Doe`)
+    );
+    expect(result.message).toBe(
+      dedent(`fix: avoid crash
+
+        Body.
+
+        Addresses: TEST-123
+        Reviewed-by: Jane Doe`)
+    );
+    expect(ruleIds(result.fixed)).toEqual(["C020", "C024"]);
+    expect(result.errors).toEqual([]);
+  });
+
+  test("Multiple fixes on the same element", () => {
+    const result = fix("Feet : Add feature");
+    expect(result.message).toBe("feat: add feature");
+    expect(ruleIds(result.fixed)).toEqual(["C001", "C003", "C004", "C005"]);
+  });
+});
+
+describe("Remaining errors", () => {
+  test("Not machine-safe", () => {
+    const result = fix("feat: add feature.");
+    expect(result.message).toBe("feat: add feature.");
+    expect(result.fixed).toEqual([]);
+    expect(ruleIds(result.errors)).toEqual(["C013"]);
+  });
+
+  test("Partially fixed", () => {
+    const result = fix("FEAT: Added feature");
+    expect(result.message).toBe("feat: added feature");
+    expect(ruleIds(result.errors)).toEqual(["C016"]);
+  });
+
+  test("Unknown scope", () => {
+    const config = new Configuration();
+    config.scopes = { api: "" };
+    const message = "feat(apis): add feature";
+    expect(
+      () => new ConventionalCommitMessage(message, undefined, config)
+    ).toThrow(ConventionalCommitError);
+
+    // Replacing the scope may change the meaning of the message
+    const result = fixCommitMessage(
+      message,
+      getConventionalCommitRule("C028").validate(
+        commit.getConventionalCommitMetadata([message]),
+        config
+      ),
+      config
+    );
+    expect(result.message).toBe(message);
+    expect(result.fixed).toEqual([]);
+  });
+
+  test("No longer parseable", () => {
+    const errors = fix("FEAT: add feature").fixed;
+    jest
+      .spyOn(commit, "getConventionalCommitMetadata")
+      .mockImplementation(() => {
+        throw new Error("Unexpected input");
+      });
+
+    const result = fixCommitMessage("FEAT: add feature", errors);
+    expect(result.message).toBe("feat: add feature");
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        message: "Commit message can no longer be parsed: Unexpected input",
+      }),
+    ]);
+
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Copyright (C) 2026, TomTom (http://tomtom.com).
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import dedent from "dedent";
+
+import { ConventionalCommitMessage } from "../src/commit";
+import { Configuration } from "../src/config";
+import { ConventionalCommitError } from "../src/errors";
+import { parseCommitMessage } from "../src/parser";
+
+const parse = (message: string) => parseCommitMessage(message.split("\n"));
+
+describe("Subject", () => {
+  test("All elements", () => {
+    const ast = parse("feat(parser)!: track positions");
+
+    expect(ast.type?.value).toBe("feat");
+    expect(ast.type?.range.columnNumber).toEqual({ start: 1, range: 4 });
+    expect(ast.scope?.value).toBe("parser");
+    expect(ast.scope?.range.columnNumber).toEqual({ start: 6, range: 6 });
+    expect(ast.breakingChange?.value).toBe("!");
+    expect(ast.breakingChange?.range.columnNumber).toEqual({
+      start: 13,
+      range: 1,
+    });
+    expect(ast.separator?.value).toBe(": ");
+    expect(ast.separator?.range.columnNumber).toEqual({ start: 14, range: 2 });
+    expect(ast.description?.value).toBe("track positions");
+    expect(ast.description?.range.columnNumber).toEqual({
+      start: 16,
+      range: 15,
+    });
+    for (const token of [ast.type, ast.scope, ast.description]) {
+      expect(token?.range.lineNumber.start).toBe(1);
+    }
+  });
+
+  test("Description repeating the type", () => {
+    const ast = parse("feat: feat");
+    expect(ast.description?.range.columnNumber.start).toBe(7);
+  });
+
+  test("Emoji prefix", () => {
+    let ast = parse(":sparkles: feat: add feature");
+    expect(ast.emoji?.value).toBe(":sparkles:");
+    expect(ast.emoji?.range.columnNumber).toEqual({ start: 1, range: 10 });
+    expect(ast.type?.range.columnNumber).toEqual({ start: 12, range: 4 });
+
+    ast = parse("🐛 fix: avoid crash");
+    expect(ast.emoji?.value).toBe("🐛");
+    expect(ast.type?.value).toBe("fix");
+
+    expect(parse("feat: no emoji").emoji).toBeUndefined();
+  });
+
+  test("Missing elements", () => {
+    const ast = parse(": no type");
+    expect(ast.type).toBeUndefined();
+    expect(ast.scope).toBeUndefined();
+    expect(ast.separator?.range.columnNumber.start).toBe(1);
+  });
+});
+
+describe("Body and footers", () => {
+  test("Paragraphs", () => {
+    const ast = parse(
+      dedent(`fix: subject
+
+        First paragraph
+        spanning two lines
+
+        Second paragraph`)
+    );
+
+    expect(ast.body.length).toBe(5);
+    expect(ast.paragraphs.length).toBe(2);
+    expect(ast.paragraphs[0].range.lineNumber).toEqual({ start: 3, range: 1 });
+    expect(ast.paragraphs[1].value).toBe("Second paragraph");
+    expect(ast.paragraphs[1].range.lineNumber.start).toBe(6);
+  });
+
+  test("Footer tokens and values", () => {
+    const ast = parse(
+      dedent(`fix: subject
+
+        Body
+
+        Implements: TEST-123
+        BREAKING CHANGE: folded
+         value`)
+    );
+
+    expect(ast.paragraphs.length).toBe(1);
+    expect(ast.footers.length).toBe(2);
+    expect(ast.footers[0].token.range.lineNumber.start).toBe(5);
+    expect(ast.footers[0].value.range.columnNumber).toEqual({
+      start: 13,
+      range: 8,
+    });
+    expect(ast.footers[1].token.value).toBe("BREAKING CHANGE");
+    expect(ast.footers[1].value.range.lineNumber).toEqual({
+      start: 6,
+      range: 1,
+    });
+  });
+
+  test("Footer directly following the subject", () => {
+    const ast = parse("fix: subject\nImplements: TEST-123");
+    expect(ast.body.length).toBe(1);
+    expect(ast.paragraphs.length).toBe(0);
+    expect(ast.footers.length).toBe(1);
+  });
+});
+
+describe("Diagnostics", () => {
+  function getErrors(message: string, config = new Configuration()) {
+    try {
+      new ConventionalCommitMessage(message, undefined, config);
+    } catch (error: unknown) {
+      expect(error).toBeInstanceOf(ConventionalCommitError);
+      return (error as ConventionalCommitError).errors;
+    }
+    return [];
+  }
+
+  test("Errors in the body report their line", () => {
+    let errors = getErrors(
+      dedent(`feat: multiline message
+
+        Body.
+
+        Approved by: value`)
+    );
+    const c020 = errors.find(e => e.message?.startsWith("[C020]"));
+    expect(c020?.lineNumber.start).toBe(5);
+
+    errors = getErrors(
+      dedent(`feat: multiline message
+
+        Body.
+        Addresses TICKET-1234`)
+    );
+    const c024 = errors.find(e => e.message?.startsWith("[C024]"));
+    expect(c024?.lineNumber.start).toBe(4);
+  });
+
+  test("Breaking change footer position", () => {
+    const errors = getErrors(
+      dedent(`feat: breaking change in wrong position
+
+        Implements: TEST-123
+        BREAKING-CHANGE: oops`)
+    );
+
+    const c023 = errors.find(e => e.message?.startsWith("[C023]"));
+    expect(c023?.lineNumber.start).toBe(4);
+    expect(c023?.columnNumber).toEqual({ start: 1, range: 15 });
+  });
+
+  test("Review remarks", () => {
+    const errors = getErrors("fix(ui): Address the review Comments");
+    const c017 = errors.find(e => e.message?.startsWith("[C017]"));
+    expect(c017?.columnNumber).toEqual({ start: 22, range: 15 });
+  });
+
+  test("Errors in body lines report their line", () => {
+    const config = new Configuration();
+    config.maxBodyLineLength = 10;
+    config.cleanupMode = "verbatim";
+    config.setRuleActive("C033", true);
+
+    let errors = getErrors(
+      "feat: subject\n\nShort\n\nThis line is too long",
+      config
+    );
+    const c030 = errors.find(e => e.message?.startsWith("[C030]"));
+    expect(c030?.lineNumber.start).toBe(5);
+    expect(c030?.columnNumber).toEqual({ start: 11, range: 11 });
+
+    errors = getErrors("feat: subject\n\nBody\nwith\ttab", config);
+    const c033 = errors.find(e => e.message?.startsWith("[C033]"));
+    expect(c033?.lineNumber.start).toBe(4);
+    expect(c033?.columnNumber).toEqual({ start: 5, range: 1 });
+  });
+
+  test("Missing empty line", () => {
+    const errors = getErrors("feat: subject\nbody");
+    const c018 = errors.find(e => e.message?.startsWith("[C018]"));
+    expect(c018?.lineNumber.start).toBe(2);
+    expect(c018?.line).toBe("body");
+  });
+});
@@ -16,22 +16,37 @@
 
 import dedent from "dedent";
 
-import { ConventionalCommitMessage } from "../src/commit";
 import {
+  ConventionalCommitMessage,
+  ConventionalCommitMetadata,
+  getConventionalCommitMetadata,
+} from "../src/commit";
+import {
+  CustomRule,
   getConventionalCommitRule,
   IConventionalCommitRule,
+  validatePullRequestRules,
+  validateRules,
 } from "../src/rules";
+import { LlvmError, LlvmWarning } from "../src/logging";
 import { ConventionalCommitError } from "../src/errors";
 import { Configuration } from "../src/config";
+import { IIdentity } from "../src/interfaces";
 
 function assertRuleValidationError(
   message: string,
   type: IConventionalCommitRule,
-  config: Configuration = new Configuration()
+  config: Configuration = new Configuration(),
+  author?: IIdentity
 ) {
   expect(type).not.toBeUndefined();
   try {
-    const msg = new ConventionalCommitMessage(message, undefined, config);
+    const msg = new ConventionalCommitMessage(
+      message,
+      undefined,
+      config,
+      author
+    );
     expect(msg).not.toBeDefined();
   } catch (error: any) {
     let foundError = false;
@@ -50,11 +65,17 @@ function assertRuleValidationError(
 function assertRuleNoValidationError(
   message: string,
   type: IConventionalCommitRule,
-  config: Configuration = new Configuration()
+  config: Configuration = new Configuration(),
+  author?: IIdentity
 ) {
   expect(type).not.toBeUndefined();
   try {
-    const msg = new ConventionalCommitMessage(message, undefined, config);
+    const msg = new ConventionalCommitMessage(
+      message,
+      undefined,
+      config,
+      author
+    );
     expect(msg).toBeDefined();
   } catch (error: any) {
     let foundError = false;
@@ -193,11 +214,18 @@ describe("Rules", () => {
     for (const message of [
       "feat(): empty scope",
       "feat( ): scope only whitespaces",
+      "feat(api,): empty second scope",
+      "feat(,api): empty first scope",
+      "feat(api, ,cli): scope only whitespaces",
     ]) {
       assertRuleValidationError(message, getConventionalCommitRule("C006"));
     }
 
-    for (const message of ["feat: no scope", "feat(test): scope"]) {
+    for (const message of [
+      "feat: no scope",
+      "feat(test): scope",
+      "feat(api,cli): multiple scopes",
+    ]) {
       assertRuleNoValidationError(message, getConventionalCommitRule("C006"));
     }
   });
@@ -210,13 +238,32 @@ describe("Rules", () => {
       "feat( test): whitespace before scope",
       "feat(test ): whitespace after scope",
       "feat( test ): whitespace around scope",
+      "feat(api, cli): whitespace around second scope",
+      "feat(api ,cli): whitespace around first scope",
     ]) {
       assertRuleValidationError(message, getConventionalCommitRule("C007"));
     }
 
-    for (const message of ["feat: no scope", "feat(test): scope"]) {
+    for (const message of [
+      "feat: no scope",
+      "feat(test): scope",
+      "feat(api,cli): multiple scopes",
+    ]) {
       assertRuleNoValidationError(message, getConventionalCommitRule("C007"));
     }
+
+    const config = new Configuration();
+    config.scopeSeparator = "/";
+    assertRuleValidationError(
+      "feat(core/ parser): whitespace around second scope",
+      getConventionalCommitRule("C007"),
+      config
+    );
+    assertRuleNoValidationError(
+      "feat(core/parser): multiple scopes",
+      getConventionalCommitRule("C007"),
+      config
+    );
   });
 
   /**
@@ -416,11 +463,104 @@ describe("Rules", () => {
     }
   });
 
+  test(`[C016] Inflected verb forms`, () => {
+    for (const message of [
+      "feat: implemented new parser",
+      "feat: introduces caching",
+      "fix: stopped leaking memory",
+      "fix: applies the patch",
+      "refactor: rewrote the parser",
+      "docs: updating the README",
+    ]) {
+      assertRuleValidationError(message, getConventionalCommitRule("C016"));
+    }
+
+    for (const message of [
+      "feat: fixedpoint arithmetic",
+      "chore: updatedb configuration",
+      "fix: address memory leak",
+      "fix: missing import",
+      "feat: squashed changes (#12)",
+      "chore: did something",
+    ]) {
+      assertRuleNoValidationError(message, getConventionalCommitRule("C016"));
+    }
+
+    const config = new Configuration();
+    config.imperativeMoodExceptions = ["Logs"];
+    assertRuleNoValidationError(
+      "feat: logs the request",
+      getConventionalCommitRule("C016"),
+      config
+    );
+  });
+
+  test(`[C016] Plural nouns are not reported`, () => {
+    for (const message of [
+      "test: tests for the parser",
+      "style: comments in the config",
+      "docs: changes to the README",
+      "feat!: breaks the API",
+      "fix: crash when the user logs",
+    ]) {
+      assertRuleNoValidationError(message, getConventionalCommitRule("C016"));
+    }
+  });
+
+  test(`[C016] Imperative mood suggestion`, () => {
+    for (const [description, expectations] of [
+      ["adds", "add"],
+      ["Implemented", "Implement"],
+      ["fixes", "fix"],
+      ["applied", "apply"],
+      ["mapping", "map"],
+      ["updating", "update"],
+      ["built", "build"],
+    ]) {
+      expect(
+        getConventionalCommitRule("C016").validate(
+          getConventionalCommitMetadata([`feat: ${description} x`]),
+          new Configuration()
+        )
+      ).toEqual([expect.objectContaining({ expectations })]);
+    }
+  });
+
   /**
    * [C017] Subject should not contain reference to review comments
    */
   test(`[C017] Subject should not contain reference to review comments`, () => {
-    // TODO: Implement rule
+    for (const message of [
+      "fix: address review comments",
+      "fix: Process PR feedback",
+      "refactor(parser): rename variables as per review",
+      "fix: addresses the remarks of Jane",
+      "style: apply code-review-remarks",
+    ]) {
+      assertRuleValidationError(message, getConventionalCommitRule("C017"));
+    }
+
+    for (const message of [
+      "feat: add review page",
+      "fix: address validation of comments",
+      "docs: explain the review process",
+      "feat: process comments when stripping messages",
+      "fix: address feedback form validation",
+    ]) {
+      assertRuleNoValidationError(message, getConventionalCommitRule("C017"));
+    }
+
+    const config = new Configuration();
+    config.reviewRemarkPhrases = ["as discussed"];
+    assertRuleValidationError(
+      "fix: rename variable as discussed",
+      getConventionalCommitRule("C017"),
+      config
+    );
+    assertRuleNoValidationError(
+      "fix: rename variable as discussed",
+      getConventionalCommitRule("C017")
+    );
   });
 
   /**
@@ -474,9 +614,49 @@ describe("Rules", () => {
       Implements: ISS-1`),
       "chore: remove UTF-8 implementation",
       "fix(server): add mitigation for CVE-1234-34567",
+      "feat: add something (#12)",
+      "fix: resolve #12 properly",
+      "fix: resolve owner/repo#12",
     ]) {
       assertRuleNoValidationError(message, getConventionalCommitRule("C019"));
     }
+
+    // GitHub references are only detected in the subject when configured
+    const githubConfig = new Configuration();
+    githubConfig.issueGitHubReferences = true;
+    githubConfig.issueCrossRepositoryReferences = true;
+    for (const message of [
+      "fix: resolve #12 properly",
+      "fix: resolve owner/repo#12",
+    ]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C019"),
+        githubConfig
+      );
+    }
+    assertRuleNoValidationError(
+      "feat: add something (#12)",
+      getConventionalCommitRule("C019"),
+      githubConfig
+    );
+
+    // Only references to the configured project keys are detected
+    const config = new Configuration();
+    config.issueProjectKeys = ["PROJ"];
+    config.issueGitHubReferences = false;
+    assertRuleValidationError(
+      "fix: resolve PROJ-1",
+      getConventionalCommitRule("C019"),
+      config
+    );
+    for (const message of ["fix: support ISO-8601", "fix: resolve #12"]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C019"),
+        config
+      );
+    }
   });
 
   /**
@@ -517,6 +697,18 @@ describe("Rules", () => {
     ]) {
       assertRuleNoValidationError(message, getConventionalCommitRule("C020"));
     }
+
+    // Every offending git-trailer is reported
+    const errors = getConventionalCommitRule("C020").validate(
+      getConventionalCommitMetadata([
+        "feat: multiple whitespaces in footers",
+        "",
+        "Co-Authored by: value",
+        "Approved by: value",
+      ]),
+      new Configuration()
+    );
+    expect(errors.map(error => error.lineNumber.start)).toEqual([3, 4]);
   });
 
   /**
@@ -563,6 +755,18 @@ describe("Rules", () => {
     ]) {
       assertRuleNoValidationError(message, getConventionalCommitRule("C024"));
     }
+
+    // Every offending git-trailer is reported
+    const errors = getConventionalCommitRule("C024").validate(
+      getConventionalCommitMetadata([
+        "feat: two-line body",
+        "",
+        "Addresses TICKET-1234",
+        "Refs TICKET-2345",
+      ]),
+      new Configuration()
+    );
+    expect(errors.map(error => error.lineNumber.start).sort()).toEqual([3, 4]);
   });
 
   /**
@@ -618,4 +822,719 @@ describe("Rules", () => {
       );
     }
   });
+
+  /**
+   * [C027] Emoji prefix should correspond with the type tag
+   */
+  test(`[C027] Emoji prefix should correspond with the type tag`, () => {
+    const config = new Configuration();
+    config.emojiTypes = { ":sparkles:": "feat", "✨": "feat", "🐛": "fix" };
+
+    for (const message of [
+      ":bug: feat: unknown shortcode",
+      "🐛 feat: emoji of another type",
+      "✨ fix(ui): emoji of another type",
+    ]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C027"),
+        config
+      );
+    }
+    // Emoji prefixes are not validated unless configured
+    assertRuleNoValidationError(
+      "✨ feat: add feature",
+      getConventionalCommitRule("C027")
+    );
+
+    for (const message of [
+      "feat: no emoji",
+      ":sparkles: feat: shortcode",
+      "✨ feat(ui): emoji",
+      "🐛fix: emoji without whitespace",
+    ]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C027"),
+        config
+      );
+    }
+  });
+
+  /**
+   * [C028] Scope should be one of the allowed scopes
+   */
+  test(`[C028] Scope should be one of the allowed scopes`, () => {
+    const config = new Configuration();
+    config.scopes = { api: "Public API", cli: "" };
+
+    for (const message of [
+      "feat(ap1): typo in scope",
+      "feat(api,ui): one of multiple scopes",
+    ]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C028"),
+        config
+      );
+    }
+
+    for (const message of [
+      "feat: no scope",
+      "feat(api): allowed scope",
+      "feat(api, cli): multiple allowed scopes",
+    ]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C028"),
+        config
+      );
+    }
+    // Any scope is allowed unless configured
+    assertRuleNoValidationError(
+      "feat(ap1): any scope",
+      getConventionalCommitRule("C028")
+    );
+
+    expect(
+      getConventionalCommitRule("C028").validate(
+        getConventionalCommitMetadata(["feat(cli, ap1): typo"]),
+        config
+      )
+    ).toEqual([
+      expect.objectContaining({
+        columnNumber: { start: 11, range: 3 },
+        expectations: "api",
+      }),
+    ]);
+  });
+
+  /**
+   * [C029] Subject requires a scope for this type tag
+   */
+  test(`[C029] Subject requires a scope for this type tag`, () => {
+    const config = new Configuration();
+    config.scopeRequiredTypes = ["fix"];
+
+    for (const message of ["fix: no scope", "fix(): empty scope"]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C029"),
+        config
+      );
+    }
+
+    for (const message of ["fix(api): scope", "feat: no scope"]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C029"),
+        config
+      );
+    }
+  });
+
+  /**
+   * [C030] Body lines should be within the line length limit
+   */
+  test(`[C030] Body lines should be within the line length limit`, () => {
+    const config = new Configuration();
+    config.maxBodyLineLength = 20;
+    const message = dedent(`feat: body lines
+
+    This line is way too long.
+
+    Implements: TEST-1234567890-ABCDEF`);
+
+    assertRuleValidationError(
+      message,
+      getConventionalCommitRule("C030"),
+      config
+    );
+    // Body lines are not limited unless configured
+    assertRuleNoValidationError(message, getConventionalCommitRule("C030"));
+    assertRuleNoValidationError(
+      dedent(`feat: body lines
+
+      Short lines only.
+
+      Implements: TEST-1234567890-ABCDEF`),
+      getConventionalCommitRule("C030"),
+      config
+    );
+  });
+
+  /**
+   * [C031] Commit message requires a body
+   */
+  test(`[C031] Commit message requires a body`, () => {
+    const config = new Configuration();
+    config.bodyRequiredTypes = ["feat"];
+    config.bodyRequiredForBreakingChanges = true;
+
+    for (const message of [
+      "feat: no body",
+      "fix!: breaking change without body",
+      dedent(`fix: breaking change without body
+
+      BREAKING CHANGE: removed API`),
+      dedent(`fix: breaking change without body
+
+      BREAKING-CHANGE: removed API`),
+    ]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C031"),
+        config
+      );
+      assertRuleNoValidationError(message, getConventionalCommitRule("C031"));
+    }
+
+    for (const message of [
+      "fix: no body",
+      dedent(`feat!: breaking change with body
+
+      Explains the breaking change.`),
+    ]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C031"),
+        config
+      );
+    }
+  });
+
+  /**
+   * [C032] Body should meet the minimum length
+   */
+  test(`[C032] Body should meet the minimum length`, () => {
+    const config = new Configuration();
+    config.minBodyLength = 20;
+
+    assertRuleValidationError(
+      dedent(`feat: short body
+
+      Too short.`),
+      getConventionalCommitRule("C032"),
+      config
+    );
+
+    for (const message of [
+      "feat: no body",
+      dedent(`feat: long body
+
+      This body is sufficiently long.`),
+    ]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C032"),
+        config
+      );
+    }
+  });
+
+  /**
+   * [C033] Body lines should not contain trailing whitespace or tabs
+   */
+  test(`[C033] Body lines should not contain trailing whitespace or tabs`, () => {
+    const config = new Configuration();
+    config.cleanupMode = "verbatim";
+    config.setRuleActive("C033", true);
+
+    for (const message of [
+      "feat: trailing whitespace\n\nBody with trailing whitespace  ",
+      "feat: tab\n\nBody\twith tab",
+    ]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C033"),
+        config
+      );
+    }
+
+    assertRuleNoValidationError(
+      "feat: clean body\n\nBody without trailing whitespace",
+      getConventionalCommitRule("C033"),
+      config
+    );
+    // Trailing whitespace is retained by the default cleanup mode as well,
+    // except at the end of the message
+    const defaultConfig = new Configuration();
+    defaultConfig.setRuleActive("C033", true);
+    assertRuleValidationError(
+      "fix: body\n\nline with trailing   \nmore",
+      getConventionalCommitRule("C033"),
+      defaultConfig
+    );
+    assertRuleNoValidationError(
+      "fix: body\n\nline without trailing whitespace\n  \n",
+      getConventionalCommitRule("C033"),
+      defaultConfig
+    );
+  });
+
+  /**
+   * [C034] Commit message requires a Signed-off-by trailer matching the author
+   */
+  test(`[C034] Commit message requires a Signed-off-by trailer matching the author`, () => {
+    const config = new Configuration();
+    config.setRuleActive("C034", true);
+    const author = { name: "Jane Doe", email: "jane.doe@example.com" };
+
+    for (const message of [
+      "feat: no sign-off",
+      "feat: other sign-off\n\nSigned-off-by: John Doe <john.doe@example.com>",
+      "feat: malformed sign-off\n\nSigned-off-by: Jane Doe",
+    ]) {
+      assertRuleValidationError(
+        message,
+        getConventionalCommitRule("C034"),
+        config,
+        author
+      );
+    }
+
+    for (const message of [
+      "feat: sign-off\n\nSigned-off-by: Jane Doe <jane.doe@example.com>",
+      "feat: sign-off\n\nsigned-off-by: Jane Doe <Jane.Doe@Example.com>",
+      "feat: co-authored\n\nSigned-off-by: John Doe <john.doe@example.com>\nSigned-off-by: Jane Doe <jane.doe@example.com>",
+    ]) {
+      assertRuleNoValidationError(
+        message,
+        getConventionalCommitRule("C034"),
+        config,
+        author
+      );
+    }
+
+    // Unknown authors and allowed bots are not validated
+    assertRuleNoValidationError(
+      "feat: unknown author",
+      getConventionalCommitRule("C034"),
+      config
+    );
+    config.dcoAllowedBots = ["*[bot]"];
+    assertRuleNoValidationError(
+      "chore: bump dependency",
+      getConventionalCommitRule("C034"),
+      config,
+      { name: "dependabot[bot]", email: "support@github.com" }
+    );
+
+    // The mismatching sign-off is pointed at
+    const errors = validateRules(
+      getConventionalCommitMetadata(
+        ["feat: sign-off", "", "Signed-off-by: John Doe <john@example.com>"],
+        author
+      ),
+      config
+    ).filter(error => error.message?.startsWith("[C034]"));
+    expect(errors.length).toBe(1);
+    expect(errors[0].lineNumber.start).toBe(3);
+    expect(errors[0].columnNumber).toEqual({ start: 16, range: 27 });
+    expect(errors[0].expectations).toBe("Jane Doe <jane.doe@example.com>");
+  });
+
+  /**
+   * [C035] Subject should not mark the commit as work in progress
+   */
+  test(`[C035] Subject should not mark the commit as work in progress`, () => {
+    for (const message of [
+      "chore: wip",
+      "fix: tmp",
+      "feat: DO NOT MERGE",
+      "feat: add search (work-in-progress)",
+      "feat: add search [don't merge]",
+    ]) {
+      assertRuleValidationError(message, getConventionalCommitRule("C035"));
+    }
+
+    for (const message of [
+      "feat: add search",
+      "fix: clean up the tmp directory",
+      "fix: wipe the cache",
+      "chore: merge squashed changes (#12)",
+    ]) {
+      assertRuleNoValidationError(message, getConventionalCommitRule("C035"));
+    }
+
+    const config = new Configuration();
+    config.workInProgressPhrases = ["squash me"];
+    assertRuleValidationError(
+      "fix: squash me later",
+      getConventionalCommitRule("C035"),
+      config
+    );
+
+    // The offending words are pointed at
+    const errors = validateRules(
+      getConventionalCommitMetadata(["feat: add search DO NOT MERGE"]),
+      new Configuration()
+    ).filter(error => error.message?.startsWith("[C035]"));
+    expect(errors[0].columnNumber).toEqual({ start: 18, range: 12 });
+  });
+
+  /**
+   * [C040] Changed files should be within the paths allowed for the type tag
+   */
+  test(`[C040] Changed files should be within the paths allowed for the type tag`, () => {
+    const config = new Configuration();
+    config.typePaths = {
+      docs: ["docs/**", "*.md"],
+      test: ["test/**", "src/**/?.test.ts"],
+    };
+    const validate = (message: string, files?: string[]) =>
+      getConventionalCommitRule("C040").validate(
+        getConventionalCommitMetadata([message], undefined, files),
+        config
+      );
+
+    for (const [message, files] of [
+      ["docs: describe the rules", ["docs/rules.md", "README.md"]],
+      ["docs: describe the rules", ["src/lib/README.md"]],
+      ["test: cover the parser", ["test/parser.test.ts", "src/a/b.test.ts"]],
+      ["fix: handle timeouts", ["src/main.ts"]],
+    ] as [string, string[]][]) {
+      expect(validate(message, files)).toEqual([]);
+    }
+
+    // The files are not known
+    expect(validate("docs: describe the rules")).toEqual([]);
+
+    const errors = validate("docs: describe the rules", [
+      "docs/rules.md",
+      "src/rules.ts",
+      "docs.md/index.ts",
+    ]);
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message:
+          "[C040] Changed files should be within the paths allowed for the type tag " +
+          "(docs/**, *.md): src/rules.ts, docs.md/index.ts",
+        columnNumber: { start: 1, range: 4 },
+      }),
+    ]);
+    expect(validate("test: cover the parser", ["src/test.ts"]).length).toBe(1);
+
+    // The files provided along with the commit message are validated
+    expect(
+      () =>
+        new ConventionalCommitMessage(
+          "docs: describe the rules",
+          undefined,
+          config,
+          undefined,
+          ["src/rules.ts"]
+        )
+    ).toThrow(ConventionalCommitError);
+  });
+
+  /**
+   * Rules suppressed using the `Commisery-Disable` git-trailer
+   */
+  test(`Suppressed rules`, () => {
+    const message = dedent(`
+      fix: handle the timeout of TEST-123 that occurs when the server does not respond in time
+
+      Commisery-Disable: C014, c019`);
+    assertRuleNoValidationError(message, getConventionalCommitRule("C014"));
+    assertRuleNoValidationError(message, getConventionalCommitRule("C019"));
+    assertRuleValidationError(
+      message.replace("C014, c019", "C019"),
+      getConventionalCommitRule("C014")
+    );
+
+    // Each suppression is reported as a warning
+    const diagnostics = validateRules(
+      getConventionalCommitMetadata(message.split("\n")),
+      new Configuration()
+    );
+    expect(diagnostics.every(d => d instanceof LlvmWarning)).toBe(true);
+    expect(diagnostics.map(d => d.message?.substring(0, 6))).toEqual([
+      "[C014]",
+      "[C019]",
+    ]);
+    expect(diagnostics[1].lineNumber.start).toBe(3);
+    expect(diagnostics[1].columnNumber).toEqual({ start: 26, range: 4 });
+
+    // Unknown rules and rules for which suppression is forbidden are validated
+    const config = new Configuration();
+    config.forbiddenSuppressions = ["C019"];
+    assertRuleValidationError(
+      message,
+      getConventionalCommitRule("C019"),
+      config
+    );
+    expect(
+      validateRules(
+        getConventionalCommitMetadata(
+          message.replace("C014, c019", "X123").split("\n")
+        ),
+        config
+      ).map(d => d.message)
+    ).toContain("[X123] Unknown rule; suppression has no effect");
+    expect(
+      validateRules(
+        getConventionalCommitMetadata(
+          message.replace("C014, c019", "C039").split("\n")
+        ),
+        config
+      ).map(d => d.message)
+    ).toContain(
+      "[C039] Pull request rules cannot be suppressed for a single commit message"
+    );
+  });
+
+  /**
+   * Custom rules, as defined in the configuration
+   */
+  test(`Custom rules`, () => {
+    const config = new Configuration();
+    const noWip = new CustomRule({
+      id: "X001",
+      target: "description",
+      mustNotMatch: "\\bWIP\\b",
+      message: "Description should not mark work in progress",
+      default: true,
+    });
+    const implementsTicket = new CustomRule({
+      id: "X002",
+      target: "footer-token",
+      mustMatch: "^Implements$",
+      message: "Commit should implement a ticket",
+      default: true,
+    });
+    config.customRules = [noWip, implementsTicket];
+
+    assertRuleValidationError("feat: WIP new feature", noWip, config);
+    assertRuleValidationError("feat: new feature", implementsTicket, config);
+    assertRuleValidationError(
+      dedent(`feat: new feature
+
+      Refs: TEST-123`),
+      implementsTicket,
+      config
+    );
+
+    for (const message of [
+      dedent(`feat: wipe the cache
+
+      Implements: TEST-123`),
+      dedent(`feat(WIP): new feature
+
+      Refs: TEST-123
+      Implements: TEST-456`),
+    ]) {
+      assertRuleNoValidationError(message, noWip, config);
+      assertRuleNoValidationError(message, implementsTicket, config);
+    }
+
+    // Location of the match in multi-line elements
+    const metadata = getConventionalCommitMetadata([
+      "feat: new feature",
+      "",
+      "Implements: TEST-123",
+      "  and some WIP",
+    ]);
+    const wipValue = new CustomRule({
+      id: "X003",
+      target: "footer-value",
+      mustNotMatch: "WIP",
+      message: "Trailer should not mark work in progress",
+      default: true,
+    });
+    expect(wipValue.validate(metadata, config)).toEqual([
+      expect.objectContaining({
+        lineNumber: { start: 4 },
+        columnNumber: { start: 12, range: 3 },
+        line: "  and some WIP",
+      }),
+    ]);
+  });
+
+  /**
+   * Rules provided by plugins
+   */
+  test(`Plugin rules`, () => {
+    const config = new Configuration();
+    // Plugins report plain `Error`s, as they cannot construct an `LlvmError`
+    const plugin = {
+      id: "P001",
+      description: "Scope should be registered",
+      default: true,
+      validate: (message: ConventionalCommitMetadata) =>
+        message.scope === "unregistered"
+          ? [
+              Object.assign(new Error("Scope should be registered"), {
+                columnNumber: { start: 6, range: 12 },
+                expectations: "registered",
+              }),
+            ]
+          : [],
+    } as unknown as IConventionalCommitRule;
+    config.pluginRules = [plugin];
+    config.rules.set(plugin.id, {
+      description: plugin.description,
+      enabled: true,
+    });
+
+    assertRuleValidationError("feat(unregistered): x", plugin, config);
+    assertRuleNoValidationError("feat(registered): x", plugin, config);
+
+    const errors = validateRules(
+      getConventionalCommitMetadata(["feat(unregistered): x"]),
+      config
+    );
+    expect(errors).toEqual([
+      expect.objectContaining({
+        message: "[P001] Scope should be registered",
+        line: "feat(unregistered): x",
+        columnNumber: { start: 6, range: 12 },
+        expectations: "registered",
+      }),
+    ]);
+    expect(errors[0]).toBeInstanceOf(LlvmError);
+
+    config.setRuleActive("P001", false);
+    assertRuleNoValidationError("feat(unregistered): x", plugin, config);
+
+    // Plugins of earlier releases throw the error instead
+    const legacyPlugin = {
+      id: "P002",
+      description: "Description should not contain TODO",
+      default: true,
+      validate: (message: ConventionalCommitMetadata) => {
+        if (message.description.includes("TODO")) {
+          throw new Error("Description should not contain TODO");
+        }
+      },
+    } as unknown as IConventionalCommitRule;
+    config.pluginRules = [legacyPlugin];
+    config.rules.set(legacyPlugin.id, {
+      description: legacyPlugin.description,
+      enabled: true,
+    });
+    assertRuleValidationError("feat: TODO", legacyPlugin, config);
+    assertRuleNoValidationError("feat: done", legacyPlugin, config);
+
+    // Invalid results are reported as a violation of the rule
+    const invalidPlugin = {
+      id: "P003",
+      description: "Returns an invalid result",
+      default: true,
+      validate: () => "invalid",
+    } as unknown as IConventionalCommitRule;
+    config.pluginRules = [invalidPlugin];
+    config.rules.set(invalidPlugin.id, {
+      description: invalidPlugin.description,
+      enabled: true,
+    });
+    expect(
+      validateRules(getConventionalCommitMetadata(["feat: x"]), config).map(
+        error => error.message
+      )
+    ).toEqual([
+      "[P003] Plugin rule returned an invalid result, must be a list of errors",
+    ]);
+  });
+});
+
+describe("Pull request rules", () => {
+  function getPullRequestRuleIds(
+    subjects: string[],
+    config: Configuration = new Configuration()
+  ): string[] {
+    const commits = subjects.map((subject, index) => {
+      const input = { sha: `${index}`.repeat(40), message: subject };
+      return {
+        input,
+        message: new ConventionalCommitMessage(subject, input.sha, config),
+        errors: [],
+        warnings: [],
+      };
+    });
+    return validatePullRequestRules(commits, config).map(
+      error => error.message?.substring(1, 5) ?? ""
+    );
+  }
+
+  test(`[C036] Pull request should not exceed the maximum number of commits`, () => {
+    const subjects = ["feat: add search", "test: cover search", "docs: search"];
+    expect(getPullRequestRuleIds(subjects)).not.toContain("C036");
+
+    const config = new Configuration();
+    config.maxPullRequestCommits = 3;
+    expect(getPullRequestRuleIds(subjects, config)).not.toContain("C036");
+    config.maxPullRequestCommits = 2;
+    expect(getPullRequestRuleIds(subjects, config)).toContain("C036");
+  });
+
+  test(`[C037] Commit subjects should be unique within the pull request`, () => {
+    const config = new Configuration();
+    config.setRuleActive("C037", true);
+
+    expect(
+      getPullRequestRuleIds(
+        ["fix: handle timeouts", "fix: handle retries"],
+        config
+      )
+    ).not.toContain("C037");
+    expect(
+      getPullRequestRuleIds(
+        ["fix: handle timeouts", "fix: handle Timeouts"],
+        config
+      )
+    ).toContain("C037");
+    expect(
+      getPullRequestRuleIds(["fix: handle timeouts", "fix: handle timeouts"])
+    ).not.toContain("C037");
+  });
+
+  test(`[C038] Breaking and non-breaking changes should not be mixed within the same scope`, () => {
+    const config = new Configuration();
+    config.setRuleActive("C038", true);
+
+    for (const subjects of [
+      ["feat(api)!: remove search", "test(api): cover removal"],
+      ["feat(api)!: remove search", "fix(ui): handle timeouts"],
+      ["feat: add search", "fix: handle timeouts"],
+    ]) {
+      expect(getPullRequestRuleIds(subjects, config)).not.toContain("C038");
+    }
+    expect(
+      getPullRequestRuleIds(
+        ["feat(api)!: remove search", "fix(api): handle timeouts"],
+        config
+      )
+    ).toContain("C038");
+  });
+
+  test(`[C039] Pull request should contain at most one feature`, () => {
+    const config = new Configuration();
+    config.setRuleActive("C039", true);
+
+    expect(
+      getPullRequestRuleIds(
+        ["feat: add search", "fix: handle timeouts"],
+        config
+      )
+    ).not.toContain("C039");
+    expect(
+      getPullRequestRuleIds(["feat: add search", "feat: add filters"], config)
+    ).toContain("C039");
+  });
+
+  test(`Severity`, () => {
+    const config = new Configuration();
+    config.setRuleSeverity("C039", "warning");
+
+    const commits = ["feat: add search", "feat: add filters"].map(subject => ({
+      input: { sha: "0".repeat(40), message: subject },
+      message: new ConventionalCommitMessage(subject, undefined, config),
+      errors: [],
+      warnings: [],
+    }));
+    const errors = validatePullRequestRules(commits, config);
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toBeInstanceOf(LlvmWarning);
+  });
 });
@@ -79,6 +79,8 @@ export const mockGetBooleanInput = (setting: string, _options?: unknown) => {
       return true;
     case "dry-run":
       return false;
+    case "allow-plugins":
+      return false;
   }
   expect("error").toBe(`getBooleanInput("${setting}") not mocked`);
   return false;
@@ -22,6 +22,10 @@ jest.mock("@actions/core");
 
 import { Configuration } from "../src/config";
 import * as validate from "../src/actions/validate";
+import {
+  validateCommitsInCurrentPR,
+  validatePrTitleBump,
+} from "../src/validate";
 
 beforeEach(() => {
   jest.clearAllMocks();
@@ -159,6 +163,12 @@ describe("Error cases", () => {
         PR_TITLE_NOT_COMPLIANT_MSG,
       ],
     },
+    {
+      testDescription: "work in progress PR title",
+      messages: [OK_1],
+      prTitle: "ci: WIP do not merge",
+      failureMessages: [PR_TITLE_NOT_COMPLIANT_MSG],
+    },
     {
       testDescription: "bump level of PR title does not match",
       messages: [OK_1, OK_2, OK_3],
@@ -186,6 +196,210 @@ describe("Error cases", () => {
   );
 });
 
+describe("Fixup commits", () => {
+  const TARGET = { message: "fix: a patch fix", sha: "cafe0001" };
+  const FIXUP = { message: "fixup! fix: a patch fix", sha: "cafe0002" };
+  const FIXUP_BY_SHA = { message: "squash! cafe0001", sha: "cafe0003" };
+  const ORPHAN = { message: "fixup! feat: gone", sha: "cafe0004" };
+
+  const fixupTests = [
+    { policy: "allow", commits: [TARGET, FIXUP], compliant: true, warnings: 0 },
+    {
+      policy: "allow",
+      commits: [TARGET, ORPHAN],
+      compliant: true,
+      warnings: 1,
+    },
+    {
+      policy: "warn",
+      commits: [TARGET, FIXUP_BY_SHA],
+      compliant: true,
+      warnings: 1,
+    },
+    {
+      policy: "warn",
+      commits: [TARGET, FIXUP, ORPHAN],
+      compliant: true,
+      warnings: 2,
+    },
+    { policy: "fail", commits: [TARGET, FIXUP], compliant: false, warnings: 0 },
+  ];
+
+  test.each(fixupTests)(
+    "$policy policy with $commits.length commits",
+    async ({ policy, commits, compliant, warnings }) => {
+      jest.spyOn(github, "getCommitsInPR").mockResolvedValue(commits);
+      const config = new Configuration();
+      config.fixupCommits = policy;
+
+      const result = await validateCommitsInCurrentPR(config);
+      expect(result.compliant).toBe(compliant);
+      expect(core.warning).toHaveBeenCalledTimes(warnings);
+      if (compliant) {
+        expect(core.setFailed).not.toHaveBeenCalled();
+      } else {
+        expect(core.setFailed).toHaveBeenCalledWith(
+          expect.stringContaining("fixup or squash commits")
+        );
+      }
+    }
+  );
+
+  test("Orphaned fixup commits are reported", async () => {
+    jest.spyOn(github, "getCommitsInPR").mockResolvedValue([TARGET, ORPHAN]);
+    await validateCommitsInCurrentPR(new Configuration());
+    expect(core.warning).toHaveBeenCalledWith(
+      'Commit (cafe0004) "fixup! feat: gone" does not match any other commit in the pull request'
+    );
+  });
+
+  test("Multi-line fixup commits", async () => {
+    jest.spyOn(github, "getCommitsInPR").mockResolvedValue([
+      TARGET,
+      {
+        message: "squash! fix: a patch fix\n\nMore details\n",
+        sha: "cafe0006",
+      },
+      { message: "fixup! feat: gone\n", sha: "cafe0007" },
+    ]);
+    const config = new Configuration();
+    config.fixupCommits = "warn";
+
+    await validateCommitsInCurrentPR(config);
+    expect(core.warning).toHaveBeenCalledWith(
+      "2 of the pull request's commits are fixup or squash commits, which should be squashed before merging"
+    );
+    expect(core.warning).toHaveBeenCalledWith(
+      'Commit (cafe0007) "fixup! feat: gone" does not match any other commit in the pull request'
+    );
+    expect(core.warning).toHaveBeenCalledTimes(2);
+  });
+
+  test("Fixup commits without target are reported", async () => {
+    jest
+      .spyOn(github, "getCommitsInPR")
+      .mockResolvedValue([TARGET, { message: "fixup! ", sha: "cafe0005" }]);
+    await validateCommitsInCurrentPR(new Configuration());
+    expect(core.warning).toHaveBeenCalledWith(
+      'Commit (cafe0005) "fixup! " does not match any other commit in the pull request'
+    );
+  });
+});
+
+describe("Rule severity", () => {
+  test("Warnings do not affect compliance", async () => {
+    jest
+      .spyOn(github, "getCommitsInPR")
+      .mockResolvedValue([OK_1, toICommit("ci: valid commit.")]);
+    const config = new Configuration();
+    config.setRuleSeverity("C013", "warning");
+
+    const result = await validateCommitsInCurrentPR(config);
+    expect(result.compliant).toBe(true);
+    expect(result.messages.length).toBe(2);
+    expect(core.setFailed).not.toHaveBeenCalled();
+    expect(core.error).not.toHaveBeenCalled();
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining("[C013]"),
+      expect.anything()
+    );
+  });
+
+  test("Errors fail the validation", async () => {
+    jest
+      .spyOn(github, "getCommitsInPR")
+      .mockResolvedValue([toICommit("ci: valid commit.")]);
+
+    const result = await validateCommitsInCurrentPR(new Configuration());
+    expect(result.compliant).toBe(false);
+    expect(core.error).toHaveBeenCalledWith(
+      expect.stringContaining("[C013]"),
+      expect.anything()
+    );
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringContaining("docs/rules.md#c013")
+    );
+  });
+});
+
+describe("Pull request rules", () => {
+  test("Commits exceeding the limit fail the validation", async () => {
+    jest.spyOn(github, "getCommitsInPR").mockResolvedValue([OK_1, OK_2]);
+    const config = new Configuration();
+    config.maxPullRequestCommits = 1;
+
+    const result = await validateCommitsInCurrentPR(config);
+    expect(result.compliant).toBe(false);
+    expect(core.error).toHaveBeenCalledWith(
+      expect.stringContaining("[C036]"),
+      expect.anything()
+    );
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining("pull request rules")
+    );
+  });
+
+  test("Commits within the limit", async () => {
+    jest.spyOn(github, "getCommitsInPR").mockResolvedValue([OK_1, OK_2]);
+    const config = new Configuration();
+    config.maxPullRequestCommits = 2;
+
+    const result = await validateCommitsInCurrentPR(config);
+    expect(result.compliant).toBe(true);
+    expect(core.setFailed).not.toHaveBeenCalled();
+  });
+});
+
+describe("Type paths", () => {
+  test("Changed files are only retrieved when type paths are configured", async () => {
+    jest.spyOn(github, "getCommitsInPR").mockResolvedValue([OK_1, OK_2]);
+    const getChangedFiles = jest.spyOn(github, "getChangedFiles");
+
+    await validateCommitsInCurrentPR(new Configuration());
+    expect(getChangedFiles).not.toHaveBeenCalled();
+  });
+
+  test("Changed files outside the type paths fail the validation", async () => {
+    jest
+      .spyOn(github, "getCommitsInPR")
+      .mockResolvedValue([
+        toICommit("docs: describe the rules"),
+        toICommit("fix: handle timeouts"),
+      ]);
+    jest.spyOn(github, "getChangedFiles").mockResolvedValue(["src/rules.ts"]);
+    const config = new Configuration();
+    config.typePaths = { docs: ["docs/**", "*.md"] };
+
+    const result = await validateCommitsInCurrentPR(config);
+    expect(github.getChangedFiles).toHaveBeenCalledTimes(2);
+    expect(result.compliant).toBe(false);
+    expect(result.messages.length).toBe(1);
+    expect(core.error).toHaveBeenCalledWith(
+      expect.stringContaining("[C040]"),
+      expect.anything()
+    );
+  });
+});
+
+describe("Configured bump levels", () => {
+  test("PR title bump validation uses the configured bump levels", async () => {
+    jest
+      .spyOn(github, "getCommitsInPR")
+      .mockResolvedValue([toICommit("perf: speed up parsing")]);
+    jest.spyOn(github, "getPullRequestTitle").mockResolvedValue("perf: faster");
+
+    const config = new Configuration();
+    expect(await validatePrTitleBump(config)).toBe(true);
+
+    config.tags = { ...config.tags, perf: { bump: "minor" } };
+    jest.spyOn(github, "getPullRequestTitle").mockResolvedValue("fix: faster");
+    expect(await validatePrTitleBump(config)).toBe(false);
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining("highest bump in the commits is MINOR")
+    );
+  });
+});
+
 describe("Release branch bump validation", () => {
   const PATCH_COMMIT = toICommit("fix: a patch fix");
   const MINOR_COMMIT = toICommit("feat: a new feature");